@@ -1,9 +1,32 @@
 
-import React, { useState, useCallback, ChangeEvent, DragEvent, FC, PropsWithChildren, useEffect } from 'react';
-import type { Language, GenerationMode, ApiResponse, Carousel, CsvRow, Slide } from './types';
-import { TRANSLATIONS, STYLE_OPTIONS } from './constants';
-import { generateCarouselsFromIA, generateCarouselsFromCSV, generateImage } from './services/geminiService';
-import { LoaderIcon, UploadIcon, ChevronLeftIcon, ChevronRightIcon, DownloadIcon } from './components/Icons';
+import React, { useState, useMemo, useSyncExternalStore, ChangeEvent, DragEvent, FC, PropsWithChildren, useEffect, useRef } from 'react';
+import type { Language, GenerationMode, ApiResponse, Carousel, CsvRow, Slide, IAGenerationParams, CSVGenerationParams, SlideFormatId, Project, ProjectInput } from './types';
+import { STYLE_OPTIONS, TYPOGRAPHY_FONTS, PHRASE_LANGUAGES, SLIDE_FORMATS, DEFAULT_SLIDE_FORMAT, HASHTAGS_RANGE, HOOKS_RANGE, SLIDES_RANGE, CAROUSELS_RANGE, getDefaultPhraseLanguage, type StyleGroup } from './constants';
+import { getStyleLabel } from './services/styleOptions';
+import { LOCALES, DEFAULT_LOCALE, createTranslator, describeError, type Translate } from './locales';
+import { generateCarouselsFromIA, generateCarouselsFromCSV, rewriteSlide, regenerateCarousel, generatePhraseAlternatives, translateCarousel, listProviders, setProvider, type GenerationOptions, type GenerationProgress, type ProviderOption } from './services/backendClient';
+import type { ProviderId } from './services/providers/types';
+import { renderCarouselPdf } from './services/pdfExport';
+import { exportAllCarousels, type BatchExportProgress } from './services/batchExport';
+import { getCarouselLanguage, getLanguageSuffix, groupVariants, upsertVariants } from './services/carouselVariants';
+import { getActiveHookIndex, getExportSlides, getHookLetter, showHook } from './services/coverHooks';
+import { lintResponse, loadLintConfig, saveLintConfig, describeLintIssue, getLintSeverity, type LintConfig, type LintIssue } from './services/contentLint';
+import { requestImage, retryImage, getImageJob, subscribeImageJobs, getImageJobsVersion } from './services/imageQueue';
+import { getFontDetails, getCarouselPalette, getBackgroundCss, getBrandFooterText, getSlideLayout, getLayoutMargins, getEmphasisMatcher, measureSlideText, TEXT_ALIGN, loadImage, renderSlideToBlob, getSlideBackground, getBackgroundKey, getImageRect, usesPhotoBackground } from './services/slideRenderer';
+import type { FittedBlock, FitStatus } from './services/textFitting';
+import { importCsv, isCsvFile, type CsvImportResult } from './services/csvParser';
+import { LoaderIcon, UploadIcon, ChevronLeftIcon, ChevronRightIcon, DownloadIcon, EditIcon } from './components/Icons';
+import { SlideEditor } from './components/SlideEditor';
+import { updateSlide } from './services/slideEditing';
+import type { StyledWord } from './services/emphasisMarkup';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { BrandKitPicker } from './components/BrandKitPicker';
+import { PostDetails } from './components/PostDetails';
+import { LintSettings } from './components/LintSettings';
+import { AssetLibrary, BackgroundControls, isAssetDrag } from './components/AssetLibrary';
+import { getAsset, createBackground, ASSET_DRAG_TYPE } from './services/assetStore';
+import { getCaptionText, getFirstCommentText, getAltTexts } from './services/postDetails';
+import { createProjectId, listProjects, saveProject } from './services/projectStore';
 
 declare const JSZip: any;
 declare const saveAs: (blob: Blob, filename: string) => void;
@@ -62,32 +85,140 @@ const Slider: FC<SliderProps> = ({ label, value, min, max, onChange, name }) =>
 );
 
 
+const FormatSelect: FC<{ t: Translate, value: SlideFormatId, onChange: (e: ChangeEvent<HTMLSelectElement>) => void }> = ({ t, value, onChange }) => (
+  <Select label={t('format')} name="format" value={value} onChange={onChange}>
+    {Object.values(SLIDE_FORMATS).map(f => <option key={f.id} value={f.id}>{t(`format_${f.id}`)}</option>)}
+  </Select>
+);
+
+const StyleOptions: FC<{ t: Translate, group: StyleGroup }> = ({ t, group }) => (
+  <>
+    {(STYLE_OPTIONS[group] as readonly string[]).map(id => {
+      const label = getStyleLabel(t, group, id);
+      const style = group === 'typography' ? { fontFamily: TYPOGRAPHY_FONTS[id as keyof typeof TYPOGRAPHY_FONTS].fontFamily } : undefined;
+      return <option key={id} value={id} style={style}>{label}</option>;
+    })}
+  </>
+);
+
+const PhraseLanguageOptions: FC = () => (
+  <>
+    {Object.entries(PHRASE_LANGUAGES).map(([code, name]) => <option key={code} value={code}>{name}</option>)}
+  </>
+);
+
 // --- App Component ---
 
 export default function App() {
-  const [language, setLanguage] = useState<Language>('pt');
+  const [language, setLanguage] = useState<Language>(DEFAULT_LOCALE);
   const [mode, setMode] = useState<GenerationMode>('ia');
-  const [results, setResults] = useState<ApiResponse | null>(null);
+  const [project, setProject] = useState<Project | null>(null);
+  // Forms are remounted with the opened project's input when this changes.
+  const [formKey, setFormKey] = useState('new');
+  const [showLibrary, setShowLibrary] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const generationAbort = useRef<AbortController | null>(null);
+  // The backend's providers; the select is hidden until they load.
+  const [providers, setProviders] = useState<ProviderOption[]>([]);
+  const [providerId, setProviderId] = useState<ProviderId | null>(null);
+  const results = project?.response ?? null;
+
+  const t = useMemo(() => createTranslator(language), [language]);
+
+  const openProject = (opened: Project) => {
+    setProject(opened);
+    setMode(opened.input.mode);
+    setFormKey(opened.id);
+    setError(null);
+    setShowLibrary(false);
+  };
+
+  // Reopen the last project worked on.
+  useEffect(() => {
+    listProjects()
+      .then(([latest]) => latest && openProject(latest))
+      .catch(err => console.error('Failed to load projects', err));
+  }, []);
 
-  const t = useCallback((key: string) => TRANSLATIONS[language][key] || key, [language]);
+  useEffect(() => {
+    listProviders()
+      .then(list => {
+        setProviders(list.providers);
+        setProviderId(list.defaultProvider);
+      })
+      .catch(err => console.error('Failed to load providers', err));
+  }, []);
 
-  const handleGeneration = async (generationFn: () => Promise<ApiResponse>) => {
+  const handleProviderChange = (id: ProviderId) => {
+    setProvider(id);
+    setProviderId(id);
+  };
+
+  useEffect(() => {
+    if (!project) return;
+    const timer = setTimeout(() => {
+      saveProject(project).catch(err => console.error('Failed to save project', err));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [project]);
+
+  // Carousels are shown as they stream in; cancelling keeps the ones already finished.
+  const handleGeneration = async (generationFn: (options: GenerationOptions) => Promise<ApiResponse>, input: ProjectInput) => {
+    const controller = new AbortController();
+    generationAbort.current = controller;
     setIsLoading(true);
     setError(null);
-    setResults(null);
+    setProject(null);
+    setProgress(null);
+    const now = Date.now();
+    const name = input.mode === 'ia' ? input.params.niche : input.fileName;
+    const newProject: Project = { id: createProjectId(), name: `${name} · ${new Date(now).toLocaleString(language)}`, createdAt: now, updatedAt: now, input, response: { mode: input.mode, language, carrosseis: [] }, images: {} };
+    const showResponse = (response: ApiResponse) => setProject(prev => ({ ...(prev ?? newProject), response, updatedAt: Date.now() }));
     try {
-      const data = await generationFn();
-      setResults(data);
-    } catch (err: any) {
-      setError(err.message || 'An unknown error occurred.');
-      console.error(err);
+      const data = await generationFn({
+        signal: controller.signal,
+        onProgress: (update) => {
+          setProgress(update);
+          if (update.updates.length === 0) return;
+          setProject(prev => {
+            const base = prev ?? newProject;
+            const carrosseis = [...base.response.carrosseis];
+            update.updates.forEach(({ index, carousel }) => { carrosseis[index] = carousel; });
+            return { ...base, response: { ...base.response, carrosseis }, updatedAt: Date.now() };
+          });
+        },
+      });
+      showResponse(data);
+    } catch (err: unknown) {
+      if (!controller.signal.aborted) {
+        setError(describeError(t, err));
+        console.error(err);
+      }
     } finally {
+      generationAbort.current = null;
       setIsLoading(false);
+      setProgress(null);
     }
   };
-  
+
+  const updateProject = (update: (project: Project) => Partial<Project>) => {
+    setProject(prev => prev && { ...prev, ...update(prev), updatedAt: Date.now() });
+  };
+
+  const updateCarousel = (index: number, carousel: Carousel) => {
+    updateProject(p => ({ response: { ...p.response, carrosseis: p.response.carrosseis.map((c, i) => (i === index ? carousel : c)) } }));
+  };
+
+  const addVariants = (originalId: string, variants: Carousel[]) => {
+    updateProject(p => ({ response: { ...p.response, carrosseis: upsertVariants(p.response.carrosseis, originalId, variants) } }));
+  };
+
+  const addImages = (urls: Record<string, string>) => {
+    updateProject(p => ({ images: { ...p.images, ...urls } }));
+  };
+
   const downloadJson = () => {
     if (!results) return;
     const dataStr = JSON.stringify(results, null, 2);
@@ -102,17 +233,25 @@ export default function App() {
 
   return (
     <div className="min-h-screen bg-gray-900 text-gray-200 font-sans">
-      <Header t={t} language={language} setLanguage={setLanguage} />
+      <Header t={t} language={language} setLanguage={setLanguage} providers={providers} providerId={providerId} setProviderId={handleProviderChange} showLibrary={showLibrary} onToggleLibrary={() => setShowLibrary(s => !s)} />
       
       <main className="container px-4 py-8 mx-auto">
-        <ModeSelector t={t} mode={mode} setMode={setMode} />
+        {showLibrary ? (
+          <ProjectLibrary t={t} locale={language} currentProjectId={project?.id ?? null} onOpen={openProject} onCurrentChanged={setProject} />
+        ) : (
+          <>
+            <ModeSelector t={t} mode={mode} setMode={setMode} />
 
-        <div className="p-8 mt-6 bg-gray-800 rounded-lg shadow-2xl">
-          {mode === 'ia' ? <Mode1Form t={t} onGenerate={handleGeneration} isLoading={isLoading} language={language}/> : <Mode2Upload t={t} onGenerate={handleGeneration} isLoading={isLoading} language={language}/>}
-        </div>
+            <div className="p-8 mt-6 bg-gray-800 rounded-lg shadow-2xl">
+              {mode === 'ia'
+                ? <Mode1Form key={formKey} t={t} onGenerate={handleGeneration} isLoading={isLoading} language={language} initialInput={project?.input.mode === 'ia' ? project.input : undefined}/>
+                : <Mode2Upload key={formKey} t={t} onGenerate={handleGeneration} isLoading={isLoading} language={language} initialInput={project?.input.mode === 'csv' ? project.input : undefined}/>}
+            </div>
 
-{/* Fix: Pass `downloadJson` function to `onDownload` prop instead of undefined `onDownload`. */}
-        <ResultsDisplay t={t} isLoading={isLoading} error={error} results={results} onDownload={downloadJson} language={language}/>
+            {/* Fix: Pass `downloadJson` function to `onDownload` prop instead of undefined `onDownload`. */}
+            <ResultsDisplay t={t} isLoading={isLoading} progress={progress} onCancel={() => generationAbort.current?.abort()} error={error} results={results} projectName={project?.name} onDownload={downloadJson} onCarouselChange={updateCarousel} images={project?.images ?? {}} onImagesGenerated={addImages} onVariantsAdded={addVariants}/>
+          </>
+        )}
       </main>
 
       <Footer t={t} />
@@ -122,17 +261,25 @@ export default function App() {
 
 // --- Child Components for App ---
 
-const Header: FC<{ t: (key: string) => string, language: Language, setLanguage: (lang: Language) => void }> = ({ t, language, setLanguage }) => (
+const Header: FC<{ t: Translate, language: Language, setLanguage: (lang: Language) => void, providers: ProviderOption[], providerId: ProviderId | null, setProviderId: (id: ProviderId) => void, showLibrary: boolean, onToggleLibrary: () => void }> = ({ t, language, setLanguage, providers, providerId, setProviderId, showLibrary, onToggleLibrary }) => (
   <header className="py-4 bg-gray-800/50 backdrop-blur-sm shadow-lg sticky top-0 z-10">
     <div className="container flex items-center justify-between px-4 mx-auto">
       <div className="text-2xl font-bold text-white tracking-wider">{t('appName')}</div>
       <div className="flex items-center space-x-4">
         <p className="hidden text-sm text-gray-400 md:block">{t('appDescription')}</p>
+        <button onClick={onToggleLibrary} className={`px-3 py-1 text-sm rounded-md transition ${showLibrary ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}>
+          {t(showLibrary ? 'backToEditor' : 'library')}
+        </button>
+        {providerId && (
+          <div className="relative">
+            <select value={providerId} onChange={(e) => setProviderId(e.target.value as ProviderId)} title={t('provider')} className="py-1 pl-3 pr-8 text-sm bg-gray-700 border border-gray-600 rounded-md appearance-none focus:outline-none focus:ring-2 focus:ring-indigo-500">
+              {providers.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </div>
+        )}
         <div className="relative">
           <select value={language} onChange={(e) => setLanguage(e.target.value as Language)} className="py-1 pl-3 pr-8 text-sm bg-gray-700 border border-gray-600 rounded-md appearance-none focus:outline-none focus:ring-2 focus:ring-indigo-500">
-            <option value="pt">PT-BR</option>
-            <option value="en">EN-US</option>
-            <option value="es">ES-ES</option>
+            {Object.values(LOCALES).map(locale => <option key={locale.code} value={locale.code}>{locale.name}</option>)}
           </select>
         </div>
       </div>
@@ -140,23 +287,25 @@ const Header: FC<{ t: (key: string) => string, language: Language, setLanguage:
   </header>
 );
 
-const ModeSelector: FC<{ t: (key: string) => string, mode: GenerationMode, setMode: (mode: GenerationMode) => void }> = ({ t, mode, setMode }) => (
+const ModeSelector: FC<{ t: Translate, mode: GenerationMode, setMode: (mode: GenerationMode) => void }> = ({ t, mode, setMode }) => (
   <div className="flex p-1 space-x-1 bg-gray-700 rounded-lg">
     <button onClick={() => setMode('ia')} className={`w-full py-2.5 text-sm font-medium leading-5 text-center transition rounded-md ${mode === 'ia' ? 'bg-indigo-600 text-white shadow' : 'text-gray-300 hover:bg-gray-600'}`}>{t('generateWithIA')}</button>
     <button onClick={() => setMode('csv')} className={`w-full py-2.5 text-sm font-medium leading-5 text-center transition rounded-md ${mode === 'csv' ? 'bg-indigo-600 text-white shadow' : 'text-gray-300 hover:bg-gray-600'}`}>{t('generateWithCSV')}</button>
   </div>
 );
 
-const Mode1Form: FC<{ t: (key: string) => string, onGenerate: (fn: () => Promise<ApiResponse>) => void, isLoading: boolean, language: Language }> = ({ t, onGenerate, isLoading, language }) => {
-  const [params, setParams] = useState({
-    niche: '', context: '', tone: '', slidesCount: 5, carouselsCount: 1,
-    backgroundStyle: STYLE_OPTIONS.background[language][0],
-    colorPalette: STYLE_OPTIONS.palette[language][0],
-    typography: STYLE_OPTIONS.typography[language][0].value,
-    phrasesLanguage: 'pt', cta: true, ctaType: STYLE_OPTIONS.ctaType[language][0],
+type GenerateHandler = (fn: (options: GenerationOptions) => Promise<ApiResponse>, input: ProjectInput) => void;
+
+const Mode1Form: FC<{ t: Translate, onGenerate: GenerateHandler, isLoading: boolean, language: Language, initialInput?: Extract<ProjectInput, { mode: 'ia' }> }> = ({ t, onGenerate, isLoading, language, initialInput }) => {
+  // Projects saved before a setting existed get its default.
+  const [params, setParams] = useState<IAGenerationParams>(() => initialInput ? { hashtagsCount: HASHTAGS_RANGE.default, hooksCount: HOOKS_RANGE.default, ...initialInput.params } : {
+    niche: '', context: '', tone: '', slidesCount: SLIDES_RANGE.default, carouselsCount: CAROUSELS_RANGE.default, hashtagsCount: HASHTAGS_RANGE.default, hooksCount: HOOKS_RANGE.default,
+    backgroundStyle: STYLE_OPTIONS.background[0],
+    colorPalette: STYLE_OPTIONS.palette[0],
+    typography: STYLE_OPTIONS.typography[0],
+    phrasesLanguage: getDefaultPhraseLanguage(language), cta: true, ctaType: STYLE_OPTIONS.ctaType[0],
+    format: DEFAULT_SLIDE_FORMAT,
   });
-  
-  const currentLangOptions = STYLE_OPTIONS.typography[language];
 
   const handleChange = (e: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
@@ -174,7 +323,7 @@ const Mode1Form: FC<{ t: (key: string) => string, onGenerate: (fn: () => Promise
   
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onGenerate(() => generateCarouselsFromIA(params));
+    onGenerate(options => generateCarouselsFromIA(params, options), { mode: 'ia', params });
   };
   
   return (
@@ -184,26 +333,32 @@ const Mode1Form: FC<{ t: (key: string) => string, onGenerate: (fn: () => Promise
         <Input label={t('context')} name="context" value={params.context} onChange={handleChange} placeholder={t('contextPlaceholder')} required />
         <Input label={t('tone')} name="tone" value={params.tone} onChange={handleChange} placeholder={t('tonePlaceholder')} required />
       </div>
-      <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
-        <Slider label={t('slidesCount')} name="slidesCount" value={params.slidesCount} min={2} max={10} onChange={handleSliderChange} />
-        <Slider label={t('carouselsCount')} name="carouselsCount" value={params.carouselsCount} min={1} max={10} onChange={handleSliderChange} />
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-4">
+        <Slider label={t('slidesCount')} name="slidesCount" value={params.slidesCount} min={SLIDES_RANGE.min} max={SLIDES_RANGE.max} onChange={handleSliderChange} />
+        <Slider label={t('carouselsCount')} name="carouselsCount" value={params.carouselsCount} min={CAROUSELS_RANGE.min} max={CAROUSELS_RANGE.max} onChange={handleSliderChange} />
+        <Slider label={t('hashtagsCount')} name="hashtagsCount" value={params.hashtagsCount} min={HASHTAGS_RANGE.min} max={HASHTAGS_RANGE.max} onChange={handleSliderChange} />
+        <Slider label={t('hooksCount')} name="hooksCount" value={params.hooksCount ?? HOOKS_RANGE.default} min={HOOKS_RANGE.min} max={HOOKS_RANGE.max} onChange={handleSliderChange} />
       </div>
       <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
          <Select label={t('backgroundStyle')} name="backgroundStyle" value={params.backgroundStyle} onChange={handleChange}>
-            {STYLE_OPTIONS.background[language].map((o, i) => <option key={i} value={o}>{o}</option>)}
+            <StyleOptions t={t} group="background" />
         </Select>
-        <Select label={t('colorPalette')} name="colorPalette" value={params.colorPalette} onChange={handleChange}>
-            {STYLE_OPTIONS.palette[language].map((o, i) => <option key={i} value={o}>{o}</option>)}
+        <Select label={t('colorPalette')} name="colorPalette" value={params.colorPalette} onChange={handleChange} disabled={Boolean(params.brandKit)} title={params.brandKit ? t('paletteFromBrandKit') : undefined}>
+            <StyleOptions t={t} group="palette" />
         </Select>
         <Select label={t('typography')} name="typography" value={params.typography} onChange={handleChange}>
-            {currentLangOptions.map((o, i) => <option key={i} value={o.value} style={{fontFamily: o.fontFamily}}>{o.name}</option>)}
+            <StyleOptions t={t} group="typography" />
         </Select>
       </div>
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+        <FormatSelect t={t} value={params.format} onChange={handleChange} />
+        <div className="md:col-span-2">
+          <BrandKitPicker t={t} value={params.brandKit} onChange={(brandKit) => setParams(p => ({ ...p, brandKit }))} />
+        </div>
+      </div>
       <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
         <Select label={t('phrasesLanguage')} name="phrasesLanguage" value={params.phrasesLanguage} onChange={handleChange}>
-            <option value="pt">Português (Brasil)</option>
-            <option value="en">English (US)</option>
-            <option value="es">Español (España)</option>
+            <PhraseLanguageOptions />
         </Select>
         <div className="flex items-center pt-6 space-x-4">
              <label className="text-sm font-medium text-gray-300">{t('cta')}</label>
@@ -211,7 +366,7 @@ const Mode1Form: FC<{ t: (key: string) => string, onGenerate: (fn: () => Promise
         </div>
         {params.cta && (
            <Select label={t('ctaType')} name="ctaType" value={params.ctaType} onChange={handleChange}>
-              {STYLE_OPTIONS.ctaType[language].map((o, i) => <option key={i} value={o}>{o}</option>)}
+              <StyleOptions t={t} group="ctaType" />
            </Select>
         )}
       </div>
@@ -220,18 +375,21 @@ const Mode1Form: FC<{ t: (key: string) => string, onGenerate: (fn: () => Promise
   );
 };
 
-const Mode2Upload: FC<{ t: (key: string) => string, onGenerate: (fn: () => Promise<ApiResponse>) => void, isLoading: boolean, language: Language }> = ({ t, onGenerate, isLoading, language }) => {
-    const [params, setParams] = useState({
-        backgroundStyle: STYLE_OPTIONS.background[language][0],
-        colorPalette: STYLE_OPTIONS.palette[language][0],
-        typography: STYLE_OPTIONS.typography[language][0].value,
+const Mode2Upload: FC<{ t: Translate, onGenerate: GenerateHandler, isLoading: boolean, language: Language, initialInput?: Extract<ProjectInput, { mode: 'csv' }> }> = ({ t, onGenerate, isLoading, language, initialInput }) => {
+    const [params, setParams] = useState<CSVGenerationParams>(() => initialInput ? { hashtagsCount: HASHTAGS_RANGE.default, ...initialInput.params } : {
+        language: getDefaultPhraseLanguage(language),
+        backgroundStyle: STYLE_OPTIONS.background[0],
+        colorPalette: STYLE_OPTIONS.palette[0],
+        typography: STYLE_OPTIONS.typography[0],
         cta: false,
+        ctaType: STYLE_OPTIONS.ctaType[0],
+        format: DEFAULT_SLIDE_FORMAT,
+        hashtagsCount: HASHTAGS_RANGE.default,
     });
-    const [csvData, setCsvData] = useState<CsvRow[] | null>(null);
-    const [fileName, setFileName] = useState('');
+    const [csvData, setCsvData] = useState<CsvRow[] | null>(initialInput?.rows ?? null);
+    const [csvImport, setCsvImport] = useState<CsvImportResult | null>(null);
+    const [fileName, setFileName] = useState(initialInput?.fileName ?? '');
     const [isDragging, setIsDragging] = useState(false);
-    
-    const currentLangOptions = STYLE_OPTIONS.typography[language];
 
     const handleChange = (e: ChangeEvent<HTMLSelectElement | HTMLInputElement>) => {
         const { name, value, type } = e.target;
@@ -244,22 +402,17 @@ const Mode2Upload: FC<{ t: (key: string) => string, onGenerate: (fn: () => Promi
     };
     
     const processFile = (file: File) => {
-        if (file && file.type === 'text/csv') {
+        if (file && isCsvFile(file)) {
             setFileName(file.name);
             const reader = new FileReader();
             reader.onload = (e) => {
-                const text = e.target?.result as string;
-                const rows = text.split('\n').slice(1); // skip header
-                const data: CsvRow[] = rows.map(rowStr => {
-                    const [carrossel_id, ordem_slide, ...fraseParts] = rowStr.split(',');
-                    const frase = fraseParts.join(',').replace(/"/g, '').trim();
-                    return { carrossel_id, ordem_slide: parseInt(ordem_slide, 10), frase };
-                }).filter(r => r.carrossel_id && !isNaN(r.ordem_slide) && r.frase);
-                setCsvData(data);
+                const result = importCsv(e.target?.result as ArrayBuffer);
+                setCsvImport(result);
+                setCsvData(result.rows);
             };
-            reader.readAsText(file);
+            reader.readAsArrayBuffer(file);
         } else {
-            alert('Por favor, envie um arquivo .csv');
+            alert(t('csvRequired'));
         }
     }
 
@@ -285,10 +438,10 @@ const Mode2Upload: FC<{ t: (key: string) => string, onGenerate: (fn: () => Promi
     const handleSubmit = (e: React.FormEvent) => {
       e.preventDefault();
       if (!csvData || csvData.length === 0) {
-        alert('Por favor, envie um arquivo CSV com dados válidos.');
+        alert(t('csvInvalid'));
         return;
       }
-      onGenerate(() => generateCarouselsFromCSV(csvData, {...params, language}));
+      onGenerate(options => generateCarouselsFromCSV(csvData, params, options), { mode: 'csv', params, rows: csvData, fileName });
     };
 
     return (
@@ -304,38 +457,154 @@ const Mode2Upload: FC<{ t: (key: string) => string, onGenerate: (fn: () => Promi
                 <p className="mb-2 text-sm text-gray-400">{t('uploadCsvInstruction')}</p>
                 <label htmlFor="file-upload" className="font-medium text-indigo-400 cursor-pointer hover:underline">{t('uploadFile')}</label>
                 <span className="text-gray-500"> {t('orDrag')}</span>
-                <input id="file-upload" name="file-upload" type="file" className="hidden" onChange={handleFileChange} accept=".csv" />
+                <input id="file-upload" name="file-upload" type="file" className="hidden" onChange={handleFileChange} accept=".csv,text/csv" />
                 {fileName && <p className="mt-4 text-sm text-green-400">{t('fileSelected')} {fileName}</p>}
             </div>
+            {csvImport && <CsvPreviewTable t={t} result={csvImport} />}
             <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
                 <Select label={t('backgroundStyle')} name="backgroundStyle" value={params.backgroundStyle} onChange={handleChange}>
-                    {STYLE_OPTIONS.background[language].map((o, i) => <option key={i} value={o}>{o}</option>)}
+                    <StyleOptions t={t} group="background" />
                 </Select>
-                <Select label={t('colorPalette')} name="colorPalette" value={params.colorPalette} onChange={handleChange}>
-                    {STYLE_OPTIONS.palette[language].map((o, i) => <option key={i} value={o}>{o}</option>)}
+                <Select label={t('colorPalette')} name="colorPalette" value={params.colorPalette} onChange={handleChange} disabled={Boolean(params.brandKit)} title={params.brandKit ? t('paletteFromBrandKit') : undefined}>
+                    <StyleOptions t={t} group="palette" />
                 </Select>
                 <Select label={t('typography')} name="typography" value={params.typography} onChange={handleChange}>
-                     {currentLangOptions.map((o, i) => <option key={i} value={o.value} style={{fontFamily: o.fontFamily}}>{o.name}</option>)}
+                     <StyleOptions t={t} group="typography" />
                 </Select>
             </div>
-            <div className="flex items-center space-x-4">
-                 <label className="text-sm font-medium text-gray-300">{t('cta')}</label>
-                 <input type="checkbox" name="cta" checked={params.cta} onChange={handleChange} className="w-5 h-5 rounded accent-indigo-500"/>
+            <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+                <FormatSelect t={t} value={params.format} onChange={handleChange} />
+                <div className="md:col-span-2">
+                    <BrandKitPicker t={t} value={params.brandKit} onChange={(brandKit) => setParams(p => ({ ...p, brandKit }))} />
+                </div>
+            </div>
+            <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+                <Select label={t('phrasesLanguage')} name="language" value={params.language} onChange={handleChange}>
+                    <PhraseLanguageOptions />
+                </Select>
+                <div className="flex items-center pt-6 space-x-4">
+                     <label className="text-sm font-medium text-gray-300">{t('cta')}</label>
+                     <input type="checkbox" name="cta" checked={params.cta} onChange={handleChange} className="w-5 h-5 rounded accent-indigo-500"/>
+                </div>
+                {params.cta && (
+                   <Select label={t('ctaType')} name="ctaType" value={params.ctaType} onChange={handleChange}>
+                      <StyleOptions t={t} group="ctaType" />
+                   </Select>
+                )}
+                <Slider label={t('hashtagsCount')} name="hashtagsCount" value={params.hashtagsCount} min={HASHTAGS_RANGE.min} max={HASHTAGS_RANGE.max} onChange={(e) => setParams(p => ({ ...p, hashtagsCount: Number(e.target.value) }))} />
             </div>
-            <Button type="submit" isLoading={isLoading} disabled={!csvData}>{t(isLoading ? 'generating' : 'generate')}</Button>
+            <Button type="submit" isLoading={isLoading} disabled={!csvData || csvData.length === 0}>{t(isLoading ? 'generating' : 'generate')}</Button>
         </form>
     );
 };
 
+const CsvPreviewTable: FC<{ t: Translate, result: CsvImportResult }> = ({ t, result }) => {
+    if (result.missingColumns.length > 0) {
+        return (
+            <div className="p-4 text-sm bg-red-900/50 border border-red-500 rounded-lg text-red-300">
+                {t('csvMissingColumns')} <strong>{result.missingColumns.join(', ')}</strong>
+            </div>
+        );
+    }
 
-const ResultsDisplay: FC<{t: (k:string) => string, isLoading: boolean, error: string | null, results: ApiResponse | null, onDownload: () => void, language: Language}> = ({ t, isLoading, error, results, onDownload, language }) => {
-  if (isLoading) {
+    const delimiterLabel = result.delimiter === '\t' ? 'TAB' : result.delimiter;
+    const hasTipo = result.optionalColumns.includes('tipo');
     return (
-      <div className="flex flex-col items-center justify-center p-16 mt-8 bg-gray-800 rounded-lg">
-        <LoaderIcon />
-        <p className="mt-4 text-lg">{t('generating')}</p>
-      </div>
+        <div className="p-4 bg-gray-900 rounded-lg">
+            <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+                <h4 className="font-semibold text-gray-200">{t('csvPreviewTitle')}</h4>
+                <p className={`text-sm ${result.rejectedCount > 0 ? 'text-yellow-400' : 'text-green-400'}`}>
+                    {t('csvSummary', { valid: result.rows.length, rejected: result.rejectedCount })}
+                </p>
+            </div>
+            <p className="mb-3 text-xs text-gray-500">
+                {t('csvDetected', { delimiter: delimiterLabel, encoding: result.encoding })}
+                {result.optionalColumns.length > 0 && <> · {t('csvOptionalColumns')} {result.optionalColumns.join(', ')}</>}
+            </p>
+            <div className="overflow-auto max-h-64">
+                <table className="w-full text-xs text-left text-gray-300">
+                    <thead className="sticky top-0 bg-gray-800 text-gray-400">
+                        <tr>
+                            <th className="px-2 py-1">{t('csvLine')}</th>
+                            <th className="px-2 py-1">carrossel_id</th>
+                            <th className="px-2 py-1">ordem_slide</th>
+                            <th className="px-2 py-1">frase</th>
+                            {hasTipo && <th className="px-2 py-1">tipo</th>}
+                            <th className="px-2 py-1">{t('csvStatus')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {result.records.map(record => (
+                            <tr key={record.line} className={record.error ? 'bg-red-900/30' : ''}>
+                                <td className="px-2 py-1 text-gray-500">{record.line}</td>
+                                <td className="px-2 py-1">{record.carrossel_id}</td>
+                                <td className="px-2 py-1">{record.ordem_slide}</td>
+                                <td className="px-2 py-1 whitespace-pre-line">{record.frase}</td>
+                                {hasTipo && <td className="px-2 py-1">{record.tipo}</td>}
+                                <td className={`px-2 py-1 ${record.error ? 'text-red-400' : 'text-green-400'}`}>
+                                    {record.error ? t(`csvError_${record.error}`) : t('csvRowOk')}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
     );
+};
+
+
+const ResultsDisplay: FC<{t: Translate, isLoading: boolean, progress: GenerationProgress | null, onCancel: () => void, error: string | null, results: ApiResponse | null, projectName?: string, onDownload: () => void, onCarouselChange: (index: number, carousel: Carousel) => void, images: Record<string, string>, onImagesGenerated: (urls: Record<string, string>) => void, onVariantsAdded: (originalId: string, variants: Carousel[]) => void}> = ({ t, isLoading, progress, onCancel, error, results, projectName, onDownload, onCarouselChange, images, onImagesGenerated, onVariantsAdded }) => {
+  const [exportProgress, setExportProgress] = useState<BatchExportProgress | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const exportAbort = useRef<AbortController | null>(null);
+  const [lintConfig, setLintConfig] = useState<LintConfig>(loadLintConfig);
+  const lintIssues = useMemo(() => (results ? lintResponse(results, lintConfig) : []), [results, lintConfig]);
+
+  const handleLintConfigChange = (config: LintConfig) => {
+    setLintConfig(config);
+    saveLintConfig(config);
+  };
+
+  const handleExportAll = async () => {
+    if (!results) return;
+    const controller = new AbortController();
+    exportAbort.current = controller;
+    setExportError(null);
+    try {
+      const zip = await exportAllCarousels(results, { images, onProgress: setExportProgress, signal: controller.signal });
+      saveAs(zip, `${projectName || 'carrosseis'}.zip`);
+    } catch (err: unknown) {
+      if (!controller.signal.aborted) {
+        console.error("Failed to export carousels", err);
+        setExportError(describeError(t, err, 'exportAllFailed'));
+      }
+    } finally {
+      exportAbort.current = null;
+      setExportProgress(null);
+    }
+  };
+
+  const generationStatus = isLoading && (
+    <div className={`flex flex-col items-center justify-center bg-gray-800 rounded-lg ${results?.carrosseis.length ? 'p-6 mb-6' : 'p-16 mt-8'}`}>
+      <LoaderIcon />
+      <p className="mt-4 text-lg">{t('generating')}</p>
+      {progress && (
+        <p className="mt-1 text-sm text-gray-400">
+          {t('generationProgress', { carousels: progress.carousels, total: progress.expectedCarousels ?? '?', slides: progress.slides })}
+        </p>
+      )}
+      {progress?.expectedCarousels && (
+        <div className="w-48 h-2 mt-3 overflow-hidden bg-gray-700 rounded-full">
+          <div className="h-full transition-all bg-indigo-500" style={{ width: `${progress.carousels / progress.expectedCarousels * 100}%` }}></div>
+        </div>
+      )}
+      <button onClick={onCancel} className="px-4 py-2 mt-4 text-sm font-semibold text-gray-200 transition bg-gray-700 rounded-md hover:bg-gray-600">{t('cancelGeneration')}</button>
+    </div>
+  );
+
+  if (isLoading && !results?.carrosseis.length) {
+    return generationStatus;
   }
 
   if (error) {
@@ -358,232 +627,489 @@ const ResultsDisplay: FC<{t: (k:string) => string, isLoading: boolean, error: st
 
   return (
     <div className="mt-12">
+      {generationStatus}
       <div className="flex items-center justify-between mb-6">
-        <h2 className="text-3xl font-bold">{t('resultsTitle')}</h2>
-        <button onClick={onDownload} className="px-4 py-2 text-sm font-semibold text-indigo-200 transition bg-indigo-600 rounded-md hover:bg-indigo-700">{t('downloadJson')}</button>
+        <div className="min-w-0">
+          <h2 className="text-3xl font-bold">{t('resultsTitle')}</h2>
+          {projectName && <p className="mt-1 text-sm text-gray-400 truncate">{projectName}</p>}
+        </div>
+        <div className="flex items-center gap-2">
+          {isLoading ? null : exportProgress ? (
+            <>
+              <div className="w-32 h-2 overflow-hidden bg-gray-700 rounded-full">
+                <div className="h-full transition-all bg-indigo-500" style={{ width: `${exportProgress.total ? exportProgress.done / exportProgress.total * 100 : 0}%` }}></div>
+              </div>
+              <span className="text-xs text-gray-400">{t('exportingAll', { done: exportProgress.done, total: exportProgress.total })}</span>
+              <button onClick={() => exportAbort.current?.abort()} className="px-4 py-2 text-sm font-semibold text-gray-200 transition bg-gray-700 rounded-md hover:bg-gray-600">{t('stopExport')}</button>
+            </>
+          ) : (
+            <button onClick={handleExportAll} className="flex items-center px-4 py-2 text-sm font-semibold text-indigo-200 transition bg-indigo-600 rounded-md hover:bg-indigo-700"><DownloadIcon className="w-4 h-4 mr-2"/> {t('exportAll')}</button>
+          )}
+          <button onClick={onDownload} className="px-4 py-2 text-sm font-semibold text-indigo-200 transition bg-indigo-600 rounded-md hover:bg-indigo-700">{t('downloadJson')}</button>
+        </div>
       </div>
+      {exportError && <p className="mb-4 text-sm text-red-400">{exportError}</p>}
+      <LintSettings t={t} config={lintConfig} issues={lintIssues} onChange={handleLintConfigChange} />
+      <AssetLibrary t={t} />
       <div className="grid grid-cols-1 gap-8 lg:grid-cols-2">
-        {results.carrosseis.map((carousel) => (
-          <CarouselPreview key={carousel.id} carousel={carousel} t={t} language={language}/>
-        ))}
+        {groupVariants(results.carrosseis).map(({ original, variants }) => {
+          const preview = (carousel: Carousel, sync?: SlideSync) => (
+            <CarouselPreview
+              key={carousel.id}
+              carousel={carousel}
+              onChange={(c) => onCarouselChange(results.carrosseis.indexOf(carousel), c)}
+              imageUrls={images}
+              onImagesGenerated={onImagesGenerated}
+              t={t}
+              phrasesLanguage={getCarouselLanguage(carousel, results.language)}
+              variants={carousel === original ? variants : undefined}
+              onTranslated={carousel === original && !carousel.variante_de ? (translated) => onVariantsAdded(carousel.id, translated) : undefined}
+              sync={sync}
+              lintIssues={lintIssues.filter(issue => issue.carouselId === carousel.id)}
+            />
+          );
+          return variants.length === 0
+            ? preview(original)
+            : <VariantGroupPreview key={original.id} count={variants.length + 1}>{(sync) => [original, ...variants].map(c => preview(c, sync))}</VariantGroupPreview>;
+        })}
       </div>
     </div>
   );
 };
 
-// --- Rendering & Utility Functions ---
-{/* Fix: Updated `getFontDetails` to always return a complete style object, preventing type errors. */}
-const getFontDetails = (typographyName: string, lang: Language) => {
-    const defaultFont = { fontFamily: "'Montserrat', sans-serif", textTransform: 'none' as const, fontWeight: '700' };
-    const fontOption = STYLE_OPTIONS.typography[lang].find(f => f.value === typographyName);
-    
-    if (!fontOption) {
-        return defaultFont;
-    }
+const FIT_STATUS_RING: Record<FitStatus, string> = {
+    ok: '',
+    squeezed: 'ring-2 ring-yellow-400',
+    overflow: 'ring-2 ring-red-500',
+};
 
-    const details = {
-        ...defaultFont,
-        fontFamily: fontOption.fontFamily,
-    };
+// One div per fitted line, sized in container units so line breaks match the exported image.
+const FittedLines: FC<{ block: FittedBlock; toCqw: (px: number) => string; isEmphasized: (word: string) => boolean; accent: string }> = ({ block, toCqw, isEmphasized, accent }) => (
+    <>
+        {block.lines.map((line, i) => (
+            <div key={i} className="whitespace-nowrap" style={{ fontSize: toCqw(block.size), lineHeight: toCqw(block.lineHeight) }}>
+                <StyledText words={line.words} isEmphasized={isEmphasized} accent={accent} />
+            </div>
+        ))}
+    </>
+);
 
-    if (fontOption.value.includes('Caixa alta') || fontOption.value.includes('Uppercase') || fontOption.value.includes('Mayúsculas')) {
-        details.textTransform = 'uppercase' as const;
-    }
+// Renders styled words like the canvas does: markup styles, plus the layout's emphasized words in the accent color.
+const StyledText: FC<{ words: StyledWord[]; isEmphasized: (word: string) => boolean; accent: string }> = ({ words, isEmphasized, accent }) => (
+    <>
+        {words.map((word, i) => (
+            <React.Fragment key={i}>
+                {i > 0 && ' '}
+                {word.segments.map((segment, j) => (
+                    <span
+                        key={j}
+                        style={{
+                            fontWeight: segment.bold ? 900 : undefined,
+                            color: segment.accent || isEmphasized(word.text) ? accent : undefined,
+                            textDecoration: segment.underline ? 'underline' : undefined,
+                        }}
+                    >
+                        {segment.text}
+                    </span>
+                ))}
+            </React.Fragment>
+        ))}
+    </>
+);
 
-    return details;
+// An original and its translations side by side, all on the same slide so they can be compared.
+const VariantGroupPreview: FC<{ count: number; children: (sync: SlideSync) => React.ReactNode }> = ({ count, children }) => {
+    const [currentSlide, setCurrentSlide] = useState(0);
+    return (
+        <div className={`grid grid-cols-1 gap-4 lg:col-span-2 md:grid-cols-2 ${count > 2 ? 'xl:grid-cols-3' : ''}`}>
+            {children({ currentSlide, onSlideChange: setCurrentSlide })}
+        </div>
+    );
 };
 
-const getColorPalette = (paletteName: string = '') => {
-    if (paletteName.includes('Escuro') || paletteName.includes('Dark')) return { bg: '#1A1A1A', text: '#E0E0E0' };
-    if (paletteName.includes('Vibrante') || paletteName.includes('Vibrant')) return { bg: 'linear-gradient(135deg, #4F46E5, #9333EA)', text: '#FFFFFF' };
-    if (paletteName.includes('Neutro') || paletteName.includes('Neutral')) return { bg: '#E5E7EB', text: '#111827' };
-    // Default to 'Claro'
-    return { bg: '#F3EAD3', text: '#3A3A3A' };
-};
+type SlideSync = { currentSlide: number; onSlideChange: (index: number) => void };
 
-const wrapText = (context: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number, lineHeight: number) => {
-  const words = text.split(' ');
-  let line = '';
-  let lines = 0;
-
-  for (let n = 0; n < words.length; n++) {
-    const testLine = line + words[n] + ' ';
-    const metrics = context.measureText(testLine);
-    const testWidth = metrics.width;
-    if (testWidth > maxWidth && n > 0) {
-      context.fillText(line, x, y);
-      line = words[n] + ' ';
-      y += lineHeight;
-      lines++;
-    } else {
-      line = testLine;
-    }
-  }
-  context.fillText(line, x, y);
-  lines++;
-  return lines;
-};
+type CarouselAction = 'rewrite' | 'alternatives' | 'regenerate' | 'translate' | 'fix';
 
-const renderSlideToBlob = (slide: Slide, carousel: Carousel, language: Language, bgImage: HTMLImageElement | null): Promise<Blob | null> => {
-    return new Promise((resolve) => {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return resolve(null);
-
-        const size = 1080;
-        canvas.width = size;
-        canvas.height = size;
-        
-        // 1. Draw Background
-        if (bgImage) {
-            ctx.drawImage(bgImage, 0, 0, size, size);
-            ctx.fillStyle = 'rgba(0, 0, 0, 0.5)'; // Dark overlay
-            ctx.fillRect(0, 0, size, size);
-        } else {
-            const colors = getColorPalette(carousel.paleta_cores);
-            if (typeof colors.bg === 'string' && colors.bg.startsWith('linear-gradient')) {
-                const gradient = ctx.createLinearGradient(0, 0, size, size);
-                gradient.addColorStop(0, '#4F46E5');
-                gradient.addColorStop(1, '#9333EA');
-                ctx.fillStyle = gradient;
-            } else {
-                ctx.fillStyle = colors.bg as string;
-            }
-            ctx.fillRect(0, 0, size, size);
+const LINT_SEVERITY_TEXT = { error: 'text-red-400', warning: 'text-yellow-400' } as const;
+const LINT_SEVERITY_BADGE = { error: 'bg-red-600 text-white', warning: 'bg-yellow-500 text-gray-900' } as const;
+
+// The worst severity among some issues, for badge colors.
+const getWorstSeverity = (issues: LintIssue[]) => (issues.some(issue => getLintSeverity(issue.rule) === 'error') ? 'error' : 'warning');
+
+const CarouselPreview: FC<{ carousel: Carousel; onChange: (carousel: Carousel) => void; imageUrls: Record<string, string>; onImagesGenerated: (urls: Record<string, string>) => void; t: Translate; phrasesLanguage: Language; variants?: Carousel[]; onTranslated?: (variants: Carousel[]) => void; sync?: SlideSync; lintIssues?: LintIssue[] }> = ({ carousel, onChange, imageUrls, onImagesGenerated, t, phrasesLanguage, variants = [], onTranslated, sync, lintIssues = [] }) => {
+    const [ownSlide, setOwnSlide] = useState(0);
+    const currentSlide = sync?.currentSlide ?? ownSlide;
+    const setCurrentSlide = sync?.onSlideChange ?? setOwnSlide;
+    const [isEditing, setIsEditing] = useState(false);
+    const [busyAction, setBusyAction] = useState<CarouselAction | null>(null);
+    const [actionError, setActionError] = useState<string | null>(null);
+    const [alternatives, setAlternatives] = useState<{ slideIndex: number; phrases: string[] } | null>(null);
+    // Languages ticked in the translate panel; null while the panel is closed.
+    const [translateLanguages, setTranslateLanguages] = useState<Language[] | null>(null);
+    // Re-render when any image job changes status.
+    useSyncExternalStore(subscribeImageJobs, getImageJobsVersion);
+    const [isZipping, setIsZipping] = useState(false);
+    const [isExportingPdf, setIsExportingPdf] = useState(false);
+    const [searchablePdf, setSearchablePdf] = useState(true);
+    const [formatId, setFormatId] = useState<SlideFormatId>(carousel.formato ?? DEFAULT_SLIDE_FORMAT);
+    const [exportFormats, setExportFormats] = useState<SlideFormatId[]>([carousel.formato ?? DEFAULT_SLIDE_FORMAT]);
+    const format = SLIDE_FORMATS[formatId];
+    const [fontsReady, setFontsReady] = useState(false);
+
+    // Web fonts change text metrics, so measure again once they have loaded.
+    useEffect(() => {
+        document.fonts.ready.then(() => setFontsReady(true));
+    }, []);
+
+    const slideFits = useMemo(
+        () => carousel.slides.map(s => measureSlideText(s, carousel, format)),
+        [carousel, format, fontsReady]
+    );
+
+    const isPhotoBg = usesPhotoBackground(carousel);
+
+    // Images are generated for the carousel's own format and keyed by prompt, so edits
+    // that keep the prompt (text, order, type) reuse them. The shared queue dedupes requests.
+    const imageFormat = SLIDE_FORMATS[carousel.formato ?? DEFAULT_SLIDE_FORMAT];
+    const keepImage = (prompt: string) => (url: string | null) => {
+        if (url) onImagesGenerated({ [prompt]: url });
+    };
+
+    // Slides with an uploaded background never need a generated one.
+    useEffect(() => {
+        if (!isPhotoBg) return;
+        Array.from(new Set<string>(carousel.slides.filter(slide => !getSlideBackground(slide, carousel)).map(slide => slide.prompt_imagem)))
+            .filter(prompt => prompt && !imageUrls[prompt])
+            .forEach(prompt => requestImage(prompt, imageFormat).then(keepImage(prompt)));
+    }, [carousel.slides, carousel.fundo, isPhotoBg]);
+
+    const handleRetryImage = (prompt: string) => {
+        retryImage(prompt, imageFormat).then(keepImage(prompt));
+    };
+
+    const setSlides = (slides: Slide[]) => onChange({ ...carousel, slides });
+
+    // The asset's image is copied into the project's images, so the project renders without the library.
+    const assignBackground = async (assetId: string, slideIndex: number | null) => {
+        setActionError(null);
+        let asset;
+        try {
+            asset = await getAsset(assetId);
+        } catch (err: unknown) {
+            console.error(err);
+            setActionError(describeError(t, err));
+            return;
         }
+        if (!asset) return;
+        onImagesGenerated({ [`asset:${asset.id}`]: asset.dataUrl });
+        const fundo = createBackground(asset);
+        onChange(slideIndex === null
+            ? { ...carousel, fundo }
+            : { ...carousel, slides: carousel.slides.map((s, i) => (i === slideIndex ? { ...s, fundo } : s)) });
+    };
 
-        // 2. Prepare Text
-        const { fontFamily, textTransform, fontWeight } = getFontDetails(carousel.tipografia || '', language);
-        const { text: textColor } = getColorPalette(carousel.paleta_cores);
-        const text = textTransform === 'uppercase' ? slide.frase.toUpperCase() : slide.frase;
-        
-        ctx.fillStyle = textColor;
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'middle';
-        
-        // Dynamic font size
-        const baseFontSize = slide.tipo === 'capa' ? 90 : 70;
-        const maxTextWidth = size * 0.85;
-        let fontSize = baseFontSize;
-        ctx.font = `${fontWeight} ${fontSize}px ${fontFamily}`;
-        while (ctx.measureText(text).width > maxTextWidth * 2.5 && fontSize > 30) { // crude adjustment for wrapping
-             fontSize -= 5;
-             ctx.font = `${fontWeight} ${fontSize}px ${fontFamily}`;
+    const runAction = async (action: CarouselAction, fn: () => Promise<void>) => {
+        setBusyAction(action);
+        setActionError(null);
+        try {
+            await fn();
+        } catch (err: unknown) {
+            setActionError(describeError(t, err));
+            console.error(err);
+        } finally {
+            setBusyAction(null);
         }
-        const lineHeight = fontSize * 1.2;
-        
-        // 3. Draw Text (wrapped)
-        wrapText(ctx, text, size / 2, size / 2, maxTextWidth, lineHeight);
+    };
 
-        canvas.toBlob(blob => resolve(blob), 'image/png');
+    const handleRewriteSlide = () => runAction('rewrite', async () => {
+        const index = slideIndex;
+        const rewritten = await rewriteSlide(carousel, index, phrasesLanguage);
+        setSlides(carousel.slides.map((s, i) => (i === index ? rewritten : s)));
     });
-};
 
-const CarouselPreview: FC<{ carousel: Carousel; t: (key: string) => string; language: Language }> = ({ carousel, t, language }) => {
-    const [currentSlide, setCurrentSlide] = useState(0);
-    const [imageUrls, setImageUrls] = useState<Record<number, string>>({});
-    const [isLoadingImages, setIsLoadingImages] = useState(false);
-    const [isZipping, setIsZipping] = useState(false);
+    // Rewrites the slide with its lint issues in the prompt, so the model fixes them.
+    const handleFixSlide = () => runAction('fix', async () => {
+        const index = slideIndex;
+        const rewritten = await rewriteSlide(carousel, index, phrasesLanguage, lintIssues.filter(issue => issue.slideIndex === index));
+        setSlides(carousel.slides.map((s, i) => (i === index ? rewritten : s)));
+    });
 
-    useEffect(() => {
-        const isPhotoBg = carousel.estilo_fundo?.includes('foto') || carousel.estilo_fundo?.includes('photo');
-        if (isPhotoBg) {
-            setIsLoadingImages(true);
-            const fetchImages = async () => {
-                const promises = carousel.slides.map(slide => generateImage(slide.prompt_imagem));
-                const results = await Promise.all(promises);
-                const urls: Record<number, string> = {};
-                results.forEach((url, index) => {
-                    if (url) {
-                       urls[carousel.slides[index].ordem] = url;
-                    }
-                });
-                setImageUrls(urls);
-                setIsLoadingImages(false);
-            };
-            fetchImages();
+    const handleAlternatives = () => runAction('alternatives', async () => {
+        const index = slideIndex;
+        const phrases = await generatePhraseAlternatives(carousel, index, phrasesLanguage);
+        setAlternatives({ slideIndex: index, phrases });
+    });
+
+    const handleRegenerateCarousel = () => runAction('regenerate', async () => {
+        onChange(await regenerateCarousel(carousel, phrasesLanguage));
+        setAlternatives(null);
+    });
+
+    // One request per language; each variant is added as soon as it is ready.
+    const handleTranslate = (languages: Language[]) => runAction('translate', async () => {
+        for (const language of languages) {
+            onTranslated?.([await translateCarousel(carousel, phrasesLanguage, language)]);
         }
-    }, [carousel]);
+        setTranslateLanguages(null);
+    });
 
+    const toggleTranslateLanguage = (language: Language) => {
+        setTranslateLanguages(prev => prev && (prev.includes(language) ? prev.filter(l => l !== language) : [...prev, language]));
+    };
+
+    const pickAlternative = (phrase: string) => {
+        if (!alternatives) return;
+        setSlides(updateSlide(carousel.slides, alternatives.slideIndex, { frase: phrase }));
+        setAlternatives(null);
+    };
 
-    const nextSlide = () => setCurrentSlide(prev => (prev + 1) % carousel.slides.length);
-    const prevSlide = () => setCurrentSlide(prev => (prev - 1 + carousel.slides.length) % carousel.slides.length);
+    const nextSlide = () => setCurrentSlide((slideIndex + 1) % carousel.slides.length);
+    const prevSlide = () => setCurrentSlide((slideIndex - 1 + carousel.slides.length) % carousel.slides.length);
     
-    const handleDownloadZip = async () => {
+    // A single format goes at the root of the ZIP; several formats get one folder each.
+    const loadExportImages = async (carousels: Carousel[] = [carousel]) => {
+        const bgImages: Record<string, HTMLImageElement | null> = {};
+        for (const key of Array.from(new Set<string>(carousels.flatMap(c => c.slides.map(slide => getBackgroundKey(slide, c)))))) {
+            const imageUrl = imageUrls[key];
+            bgImages[key] = imageUrl ? await loadImage(imageUrl) : null;
+        }
+        const logo = carousel.marca?.logo ? await loadImage(carousel.marca.logo) : null;
+        return { bgImages, logo };
+    };
+
+    // An original's ZIP also holds its translations; the files of a group carry their language.
+    const isGrouped = variants.length > 0 || !!carousel.variante_de;
+    const getFileSuffix = (c: Carousel) => (isGrouped ? getLanguageSuffix(getCarouselLanguage(c, phrasesLanguage)) : '');
+
+    const handleDownloadZip = async (formatIds: SlideFormatId[]) => {
         setIsZipping(true);
         try {
             const zip = new JSZip();
-            for (const slide of carousel.slides) {
-                const imageUrl = imageUrls[slide.ordem];
-                let bgImage: HTMLImageElement | null = null;
-
-                if (imageUrl) {
-                    bgImage = await new Promise(resolve => {
-                       const img = new Image();
-                       img.crossOrigin = 'anonymous';
-                       img.onload = () => resolve(img);
-                       img.onerror = () => resolve(null);
-                       img.src = imageUrl;
-                    });
-                }
-                
-                const blob = await renderSlideToBlob(slide, carousel, language, bgImage);
-                if (blob) {
-                    zip.file(`slide_${slide.ordem}.png`, blob);
+            const members = [carousel, ...variants];
+            const { bgImages, logo } = await loadExportImages(members);
+            for (const id of formatIds) {
+                const folder = formatIds.length > 1 ? zip.folder(id) : zip;
+                for (const member of members) {
+                    // A cover with A/B hooks gets one image per hook.
+                    for (const { slide, suffix } of member.slides.flatMap(getExportSlides)) {
+                        const blob = await renderSlideToBlob(slide, member, bgImages[getBackgroundKey(slide, member)], SLIDE_FORMATS[id], logo);
+                        if (blob) {
+                            folder.file(`slide_${slide.ordem}${suffix}${getFileSuffix(member)}.png`, blob);
+                        }
+                    }
                 }
             }
+            for (const member of members) {
+                zip.file(`caption${getFileSuffix(member)}.txt`, getCaptionText(member));
+                const firstComment = getFirstCommentText(member);
+                if (firstComment) zip.file(`first_comment${getFileSuffix(member)}.txt`, firstComment);
+                zip.file(`alt_text${getFileSuffix(member)}.json`, JSON.stringify(getAltTexts(member), null, 2));
+            }
             const content = await zip.generateAsync({ type: 'blob' });
             saveAs(content, `${carousel.id}.zip`);
         } catch(err) {
             console.error("Failed to create ZIP", err);
-            alert("Failed to create ZIP file. See console for details.");
+            alert(t('zipFailed'));
         } finally {
             setIsZipping(false);
         }
     };
 
-    const slide = carousel.slides[currentSlide];
-    const currentImageUrl = imageUrls[slide?.ordem];
+    const handleDownloadPdf = async () => {
+        setIsExportingPdf(true);
+        setActionError(null);
+        try {
+            const { bgImages, logo } = await loadExportImages();
+            saveAs(await renderCarouselPdf(carousel, phrasesLanguage, format, bgImages, logo, { searchable: searchablePdf }), `${carousel.id}.pdf`);
+        } catch (err: unknown) {
+            console.error("Failed to create PDF", err);
+            setActionError(describeError(t, err, 'pdfFailed'));
+        } finally {
+            setIsExportingPdf(false);
+        }
+    };
+
+    const toggleExportFormat = (id: SlideFormatId) => {
+        setExportFormats(prev => prev.includes(id) ? prev.filter(f => f !== id) : [...prev, id]);
+    };
+
+    const slideIndex = Math.min(currentSlide, carousel.slides.length - 1);
+    const slide = carousel.slides[slideIndex];
+    const background = slide ? getSlideBackground(slide, carousel) : undefined;
+    const currentImageUrl = slide ? imageUrls[getBackgroundKey(slide, carousel)] : undefined;
+    const activeHook = slide ? getActiveHookIndex(slide) : -1;
+    const imageJob = isPhotoBg && !background && slide?.prompt_imagem ? getImageJob(slide.prompt_imagem, imageFormat) : undefined;
+    const isImagePending = imageJob?.status === 'queued' || imageJob?.status === 'generating';
+    const slideIssues = lintIssues.filter(issue => issue.slideIndex === slideIndex);
+    const carouselIssues = lintIssues.filter(issue => issue.slideIndex === null);
+
+    const palette = getCarouselPalette(carousel);
+    const brandKit = carousel.marca;
+    const brandFooter = brandKit ? getBrandFooterText(brandKit) : '';
 
     const getBgStyle = () => {
-        if (currentImageUrl) {
+        // Uploaded backgrounds are drawn as a positioned <img> so the crop matches the export.
+        if (currentImageUrl && !background) {
             return { backgroundImage: `url(${currentImageUrl})` };
         }
-        const colors = getColorPalette(carousel.paleta_cores);
-        return { background: colors.bg };
+        return { background: getBackgroundCss(palette) };
     }
     
-    const fontDetails = getFontDetails(carousel.tipografia || '', language);
+    const layout = getSlideLayout(slide, format);
+    const margins = getLayoutMargins(layout, format);
+    // Percentage padding resolves against the width on both axes.
+    const previewPadding = `${margins.y / format.width * 100}% ${margins.x / format.width * 100}%`;
+    const isEmphasized = getEmphasisMatcher(layout.palavras_destaque);
+    const fit = slideFits[slideIndex];
+    // Canvas pixels to container-width units, so the preview scales the exported layout exactly.
+    const toCqw = (px: number) => `${px / format.width * 100}cqw`;
+
+    const fontDetails = getFontDetails(carousel.tipografia);
     const textStyle: React.CSSProperties = {
         fontFamily: fontDetails.fontFamily,
         textTransform: fontDetails.textTransform,
         fontWeight: fontDetails.fontWeight,
-        color: getColorPalette(carousel.paleta_cores).text,
+        color: palette.text,
+        fontSize: `${1.75 * format.fontScale}rem`,
     };
 
     return (
         <div className="p-4 bg-gray-800 rounded-lg shadow-xl flex flex-col">
             <div className="flex justify-between items-center mb-4">
-                <h3 className="text-lg font-semibold text-indigo-400 truncate flex-1 mr-2">{carousel.id}</h3>
+                <h3 className="text-lg font-semibold text-indigo-400 truncate flex-1 mr-2" title={carousel.variante_de ? t('variantOf', { id: carousel.variante_de }) : undefined}>
+                    {isGrouped && <span className="px-2 py-0.5 mr-2 text-xs font-semibold text-indigo-200 align-middle bg-indigo-900 rounded">{PHRASE_LANGUAGES[phrasesLanguage] ?? phrasesLanguage}</span>}
+                    {carousel.id}
+                    {lintIssues.length > 0 && (
+                        <span title={lintIssues.map(issue => describeLintIssue(t, issue)).join('\n')} className={`px-2 py-0.5 ml-2 text-xs font-semibold align-middle rounded ${LINT_SEVERITY_BADGE[getWorstSeverity(lintIssues)]}`}>
+                            {t('lintIssuesCount', { n: lintIssues.length })}
+                        </span>
+                    )}
+                </h3>
+                <button
+                  onClick={() => setIsEditing(e => !e)}
+                  className={`flex items-center px-3 py-1.5 mr-2 text-xs font-semibold transition rounded-md ${isEditing ? 'bg-indigo-500 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+                >
+                  <EditIcon className="w-4 h-4 mr-2"/> {t(isEditing ? 'doneEditing' : 'editSlides')}
+                </button>
                 <button 
-                  onClick={handleDownloadZip} 
+                  onClick={() => handleDownloadZip([formatId])} 
                   disabled={isZipping}
                   className="flex items-center px-3 py-1.5 text-xs font-semibold text-indigo-200 transition bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-gray-500"
                 >
                   {isZipping ? <><LoaderIcon /> <span className="ml-2">{t('downloadingZip')}</span></> : <><DownloadIcon className="w-4 h-4 mr-2"/> {t('downloadZip')}</>}
                 </button>
+                <button
+                  onClick={handleDownloadPdf}
+                  disabled={isExportingPdf}
+                  className="flex items-center px-3 py-1.5 ml-2 text-xs font-semibold text-indigo-200 transition bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-gray-500"
+                >
+                  {isExportingPdf ? <><LoaderIcon /> <span className="ml-2">{t('downloadingPdf')}</span></> : <><DownloadIcon className="w-4 h-4 mr-2"/> {t('downloadPdf')}</>}
+                </button>
             </div>
-            <div className="relative aspect-square">
-                <div className={`w-full h-full rounded-md flex items-center justify-center p-8 text-center bg-cover bg-center`} style={getBgStyle()}>
-                    {(isLoadingImages && !currentImageUrl) && <LoaderIcon />}
-                    {(!isLoadingImages || currentImageUrl) && (
+            <div className="flex items-center gap-3 mb-3">
+                <select value={formatId} onChange={(e) => setFormatId(e.target.value as SlideFormatId)} className="flex-1 p-2 text-sm bg-gray-700 border border-gray-600 rounded-md focus:ring-indigo-500 focus:border-indigo-500">
+                    {Object.values(SLIDE_FORMATS).map(f => <option key={f.id} value={f.id}>{t(`format_${f.id}`)}</option>)}
+                </select>
+                <label className="flex items-center space-x-2 text-xs text-gray-400" title={t('searchablePdfHint')}>
+                    <input type="checkbox" checked={searchablePdf} onChange={(e) => setSearchablePdf(e.target.checked)} className="rounded accent-indigo-500" />
+                    <span>{t('searchablePdf')}</span>
+                </label>
+            </div>
+            <div
+              className="relative w-full"
+              style={{ aspectRatio: `${format.width} / ${format.height}`, containerType: 'inline-size' }}
+              onDragOver={(e) => isAssetDrag(e) && e.preventDefault()}
+              onDrop={(e) => {
+                  const assetId = e.dataTransfer.getData(ASSET_DRAG_TYPE);
+                  if (!assetId) return;
+                  e.preventDefault();
+                  assignBackground(assetId, slideIndex);
+              }}
+              title={t('dropSlideBackground')}
+            >
+                <div
+                  className="relative w-full h-full overflow-hidden rounded-md flex flex-col bg-cover bg-center"
+                  style={{
+                    ...getBgStyle(),
+                    padding: previewPadding,
+                    justifyContent: { topo: 'flex-start', centro: 'center', base: 'flex-end' }[layout.posicao_vertical],
+                    textAlign: TEXT_ALIGN[layout.alinhamento],
+                  }}
+                >
+                    {background && currentImageUrl && (() => {
+                        const rect = getImageRect(background.width, background.height, format.width, format.height, background);
+                        return (
+                            <img
+                                src={currentImageUrl}
+                                alt=""
+                                className="absolute max-w-none pointer-events-none"
+                                style={{ left: `${rect.x / format.width * 100}%`, top: `${rect.y / format.height * 100}%`, width: `${rect.width / format.width * 100}%`, height: `${rect.height / format.height * 100}%` }}
+                            />
+                        );
+                    })()}
+                    {(isImagePending && !currentImageUrl) && (
+                        <div className="flex flex-col items-center self-center text-xs text-gray-300">
+                            <LoaderIcon />
+                            <span className="mt-2">{imageJob!.attempt > 1 ? t('imageRetrying', { n: imageJob!.attempt }) : t(`imageStatus_${imageJob!.status}`)}</span>
+                        </div>
+                    )}
+                    {(!isImagePending || currentImageUrl) && (
                         <>
-                            {currentImageUrl && <div className="absolute inset-0 bg-black/50 rounded-md"></div>}
-                            <p className="text-2xl font-bold leading-tight md:text-3xl z-10 relative" style={textStyle}>
-                                {slide?.frase}
-                            </p>
+                            {currentImageUrl && <div className="absolute inset-0 rounded-md" style={{ backgroundColor: `rgba(0, 0, 0, ${layout.opacidade_overlay})` }}></div>}
+                            {isEditing ? (
+                                <p
+                                    key={`${slideIndex}:${slide?.frase}`}
+                                    contentEditable
+                                    suppressContentEditableWarning
+                                    onBlur={(e) => e.currentTarget.innerText !== slide?.frase && setSlides(updateSlide(carousel.slides, slideIndex, { frase: e.currentTarget.innerText }))}
+                                    className="font-bold leading-tight z-10 relative outline-none ring-1 ring-dashed ring-white/40 rounded whitespace-pre-wrap"
+                                    style={textStyle}
+                                >
+                                    {slide?.frase}
+                                </p>
+                            ) : (
+                                fit && (
+                                    <div
+                                        className="absolute z-10"
+                                        style={{ ...textStyle, left: toCqw(margins.x), right: toCqw(margins.x), top: `${fit.top / format.height * 100}%`, textAlign: TEXT_ALIGN[layout.alinhamento] }}
+                                    >
+                                        <FittedLines block={fit.title} toCqw={toCqw} isEmphasized={isEmphasized} accent={palette.accent} />
+                                        {fit.gap > 0 && <div style={{ height: toCqw(fit.gap) }} />}
+                                        <FittedLines block={fit.body} toCqw={toCqw} isEmphasized={isEmphasized} accent={palette.accent} />
+                                    </div>
+                                )
+                            )}
                         </>
                     )}
+                    {isPhotoBg && !background && slide?.prompt_imagem && !isImagePending && (
+                        <div className="absolute top-2 left-2 z-20 flex items-center gap-2 max-w-[90%]">
+                            {imageJob?.status === 'failed' && (
+                                <span className="px-2 py-1 text-xs text-red-200 truncate rounded-md bg-red-900/80" title={describeError(t, imageJob.error)}>{t('imageStatus_failed')}: {describeError(t, imageJob.error)}</span>
+                            )}
+                            <button onClick={() => handleRetryImage(slide.prompt_imagem)} className="px-2 py-1 text-xs font-semibold text-white transition rounded-md shrink-0 bg-black/50 hover:bg-black/70">{t('retryImage')}</button>
+                        </div>
+                    )}
+                    {slideIssues.length > 0 && (
+                        <span title={slideIssues.map(issue => describeLintIssue(t, issue)).join('\n')} className={`absolute top-2 right-2 z-20 px-2 py-1 text-xs font-semibold rounded-md shadow ${LINT_SEVERITY_BADGE[getWorstSeverity(slideIssues)]}`}>
+                            ! {slideIssues.length}
+                        </span>
+                    )}
+                    {brandFooter && (
+                        <p className="absolute inset-x-0 z-10 font-semibold text-center truncate" style={{ bottom: `${format.marginY / 2 * 100}%`, color: palette.accent, padding: `0 ${format.marginX * 100}%`, fontFamily: fontDetails.fontFamily, fontSize: toCqw(28 * format.fontScale) }}>{brandFooter}</p>
+                    )}
+                    {brandKit?.logo && (
+                        <img
+                            src={brandKit.logo}
+                            alt=""
+                            className="absolute z-10"
+                            style={{
+                                width: `${brandKit.logoSize * 100}%`,
+                                [brandKit.logoPosition.startsWith('top') ? 'top' : 'bottom']: `${format.marginY / 2 * 100}%`,
+                                [brandKit.logoPosition.endsWith('left') ? 'left' : 'right']: `${format.marginX / 2 * 100}%`,
+                            }}
+                        />
+                    )}
                 </div>
                 {carousel.slides.length > 1 && (
                     <>
@@ -593,19 +1119,148 @@ const CarouselPreview: FC<{ carousel: Carousel; t: (key: string) => string; lang
                 )}
             </div>
              <div className="flex justify-center mt-3 space-x-2">
-                {carousel.slides.map((_, index) => (
-                    <button key={index} onClick={() => setCurrentSlide(index)} className={`w-2.5 h-2.5 rounded-full transition ${currentSlide === index ? 'bg-indigo-500' : 'bg-gray-600 hover:bg-gray-500'}`}></button>
-                ))}
+                {carousel.slides.map((_, index) => {
+                    const flagged = lintIssues.some(issue => issue.slideIndex === index);
+                    return (
+                        <button
+                          key={index}
+                          onClick={() => setCurrentSlide(index)}
+                          title={slideFits[index] && slideFits[index]!.status !== 'ok' ? t(`fitStatus_${slideFits[index]!.status}`) : undefined}
+                          className={`w-2.5 h-2.5 rounded-full transition ${slideIndex === index ? 'bg-indigo-500' : flagged ? 'bg-yellow-500 hover:bg-yellow-400' : 'bg-gray-600 hover:bg-gray-500'} ${FIT_STATUS_RING[slideFits[index]?.status ?? 'ok']}`}
+                        ></button>
+                    );
+                })}
             </div>
-            <div className="mt-4 p-3 bg-gray-900 rounded-md text-xs text-gray-400 max-h-40 overflow-y-auto">
-                <p><strong className="text-gray-200">Layout:</strong> {slide?.instrucoes_layout}</p>
-                <p className="mt-2"><strong className="text-gray-200">Prompt Imagem:</strong> {slide?.prompt_imagem}</p>
+            {fit && fit.status !== 'ok' && (
+                <p className={`mt-2 text-xs text-center ${fit.status === 'overflow' ? 'text-red-400' : 'text-yellow-400'}`}>{t(`fitStatus_${fit.status}`)}</p>
+            )}
+            {(slideIssues.length > 0 || carouselIssues.length > 0) && (
+                <div className="p-3 mt-3 space-y-1 text-xs bg-gray-900 rounded-md">
+                    {[...carouselIssues, ...slideIssues].map((issue, i) => (
+                        <p key={i} className={LINT_SEVERITY_TEXT[getLintSeverity(issue.rule)]}>{describeLintIssue(t, issue)}</p>
+                    ))}
+                    {slideIssues.length > 0 && (
+                        <button
+                          onClick={handleFixSlide}
+                          disabled={busyAction !== null}
+                          className="flex items-center px-3 py-1.5 mt-2 font-semibold text-indigo-200 transition bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-gray-500"
+                        >
+                          {busyAction === 'fix' && <span className="mr-2"><LoaderIcon /></span>}
+                          {t('fixWithAi')}
+                        </button>
+                    )}
+                </div>
+            )}
+            {slide?.ganchos && slide.ganchos.length > 1 && (
+                <div className="flex flex-wrap items-center justify-center gap-2 mt-3">
+                    <span className="text-xs text-gray-400">{t('coverHooks')}</span>
+                    {slide.ganchos.map((hook, i) => (
+                        <button
+                          key={i}
+                          onClick={() => setSlides(carousel.slides.map((s, j) => (j === slideIndex ? showHook(s, hook) : s)))}
+                          title={hook.frase}
+                          className={`px-2.5 py-1 text-xs font-semibold transition rounded-md ${i === activeHook ? 'bg-indigo-500 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+                        >
+                          {getHookLetter(i)}{hook.motivo && <span className="ml-1 font-normal opacity-75">· {hook.motivo}</span>}
+                        </button>
+                    ))}
+                    {activeHook < 0 && <span className="w-full text-xs text-center text-yellow-400">{t('hookEdited')}</span>}
+                </div>
+            )}
+            <div className="flex flex-wrap justify-center gap-2 mt-3">
+                {([['rewrite', 'rewriteSlide', handleRewriteSlide], ['alternatives', 'phraseAlternatives', handleAlternatives], ['regenerate', 'regenerateCarousel', handleRegenerateCarousel]] as const).map(([action, label, handler]) => (
+                    <button
+                      key={action}
+                      onClick={handler}
+                      disabled={busyAction !== null}
+                      className="flex items-center px-3 py-1.5 text-xs font-semibold text-gray-200 transition bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50"
+                    >
+                      {busyAction === action && <span className="mr-2"><LoaderIcon /></span>}
+                      {t(label)}
+                    </button>
+                ))}
+                {onTranslated && (
+                    <button
+                      onClick={() => setTranslateLanguages(prev => (prev ? null : []))}
+                      disabled={busyAction !== null}
+                      className={`flex items-center px-3 py-1.5 text-xs font-semibold transition rounded-md disabled:opacity-50 ${translateLanguages ? 'bg-indigo-500 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+                    >
+                      {busyAction === 'translate' && <span className="mr-2"><LoaderIcon /></span>}
+                      {t('translateCarousel')}
+                    </button>
+                )}
             </div>
+            {actionError && <p className="mt-2 text-xs text-center text-red-400">{actionError}</p>}
+            {alternatives && alternatives.slideIndex === slideIndex && (
+                <div className="p-3 mt-3 bg-gray-900 rounded-md">
+                    <p className="mb-2 text-xs text-gray-400">{t('pickAlternative')}</p>
+                    <ul className="space-y-2">
+                        {alternatives.phrases.map((phrase, i) => (
+                            <li key={i}>
+                                <button onClick={() => pickAlternative(phrase)} className="w-full p-2 text-sm text-left text-gray-200 transition bg-gray-800 rounded-md hover:bg-indigo-600">{phrase}</button>
+                            </li>
+                        ))}
+                    </ul>
+                    <button onClick={() => setAlternatives(null)} className="mt-2 text-xs text-gray-400 hover:text-gray-200">{t('dismissAlternatives')}</button>
+                </div>
+            )}
+            {translateLanguages && (
+                <div className="p-3 mt-3 bg-gray-900 rounded-md">
+                    <p className="mb-2 text-xs text-gray-400">{t('translateTo')}</p>
+                    <div className="flex flex-wrap gap-x-4 gap-y-2 text-xs text-gray-300">
+                        {Object.entries(PHRASE_LANGUAGES).filter(([code]) => code !== phrasesLanguage).map(([code, name]) => (
+                            <label key={code} className="flex items-center space-x-2">
+                                <input type="checkbox" checked={translateLanguages.includes(code)} onChange={() => toggleTranslateLanguage(code)} disabled={busyAction !== null} className="rounded accent-indigo-500" />
+                                <span>{name}</span>
+                            </label>
+                        ))}
+                    </div>
+                    {variants.length > 0 && <p className="mt-2 text-xs text-gray-500">{t('translateReplaces')}</p>}
+                    <div className="flex items-center gap-2 mt-3">
+                        <button
+                          onClick={() => handleTranslate(translateLanguages)}
+                          disabled={busyAction !== null || translateLanguages.length === 0}
+                          className="px-3 py-1.5 text-xs font-semibold text-indigo-200 transition bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-gray-500"
+                        >
+                          {t('translateStart', { n: translateLanguages.length })}
+                        </button>
+                        <button onClick={() => setTranslateLanguages(null)} disabled={busyAction !== null} className="text-xs text-gray-400 hover:text-gray-200">{t('cancel')}</button>
+                    </div>
+                </div>
+            )}
+            <details className="mt-4 text-xs text-gray-400">
+                <summary className="cursor-pointer hover:text-gray-200">{t('exportFormats')}</summary>
+                <div className="flex flex-wrap gap-x-4 gap-y-2 mt-2">
+                    {Object.values(SLIDE_FORMATS).map(f => (
+                        <label key={f.id} className="flex items-center space-x-2">
+                            <input type="checkbox" checked={exportFormats.includes(f.id)} onChange={() => toggleExportFormat(f.id)} className="rounded accent-indigo-500" />
+                            <span>{t(`format_${f.id}`)}</span>
+                        </label>
+                    ))}
+                </div>
+                <button
+                  onClick={() => handleDownloadZip(exportFormats)}
+                  disabled={isZipping || exportFormats.length === 0}
+                  className="flex items-center px-3 py-1.5 mt-2 font-semibold text-indigo-200 transition bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-gray-500"
+                >
+                  <DownloadIcon className="w-4 h-4 mr-2"/> {t('downloadFormatsZip')}
+                </button>
+            </details>
+            {isEditing ? (
+                <SlideEditor t={t} slides={carousel.slides} format={format} currentIndex={slideIndex} onChange={setSlides} onSelect={setCurrentSlide} />
+            ) : (
+                <div className="mt-4 p-3 bg-gray-900 rounded-md text-xs text-gray-400 max-h-40 overflow-y-auto">
+                    <p><strong className="text-gray-200">{t('layoutLabel')}:</strong> {slide?.instrucoes_layout}</p>
+                    <p className="mt-2"><strong className="text-gray-200">{t('imagePromptLabel')}:</strong> {slide?.prompt_imagem}</p>
+                </div>
+            )}
+            <BackgroundControls t={t} carousel={carousel} slideIndex={slideIndex} onChange={onChange} onAssignCarousel={(assetId) => assignBackground(assetId, null)} />
+            <PostDetails t={t} carousel={carousel} slideIndex={slideIndex} onChange={onChange} />
         </div>
     );
 }
 
-const Footer: FC<{ t: (key: string) => string }> = ({ t }) => (
+const Footer: FC<{ t: Translate }> = ({ t }) => (
   <footer className="py-6 mt-12 bg-gray-800 border-t border-gray-700">
     <div className="container px-4 mx-auto text-center text-gray-400">
       <p className="text-sm">{t('footerText')}</p>
@@ -0,0 +1,398 @@
+import { parseArgs } from 'node:util';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import JSZip from 'jszip';
+import type { ApiResponse, Carousel, CSVGenerationParams, GenerationMode, IAGenerationParams, Language, SlideFormatId } from '../types';
+import { STYLE_OPTIONS, SLIDE_FORMATS, DEFAULT_SLIDE_FORMAT, HASHTAGS_RANGE, HOOKS_RANGE, SLIDES_RANGE, CAROUSELS_RANGE, PHRASE_LANGUAGES, getDefaultPhraseLanguage, isPhraseLanguage, type StyleGroup, type StyleOptionId } from '../constants';
+import { LOCALES, DEFAULT_LOCALE, createTranslator, describeError } from '../locales';
+import { findStyleId } from '../services/styleOptions';
+import { generateCarouselsFromIA, generateCarouselsFromCSV, type GenerationOptions } from '../services/geminiService';
+import { importCsv } from '../services/csvParser';
+import { requestImage, getImageJob } from '../services/imageQueue';
+import { setCanvasPlatform, renderSlideToBlob, loadImage, measureSlideText, usesPhotoBackground } from '../services/slideRenderer';
+import { toFolderName } from '../services/batchExport';
+import { getCaptionText, getFirstCommentText, getAltTexts } from '../services/postDetails';
+import { getExportSlides } from '../services/coverHooks';
+import { isObject } from '../services/responseValidator';
+import { PROVIDERS, isProviderConfigured, isProviderId, setActiveProviderId, type ProviderId } from '../services/providers';
+import { nodeCanvasPlatform, loadFontsFromDir } from './nodeCanvas';
+
+// Headless batch generator: the same prompts, validation and renderer as the web app,
+// driven by flags or a JSON config. Progress goes to stderr; stdout only carries the
+// JSON summary, so pipelines can parse it.
+
+const EXIT_OK = 0;
+const EXIT_GENERATION_FAILED = 1;
+const EXIT_USAGE = 2;
+// Carousels were written, but some backgrounds or slides could not be produced.
+const EXIT_PARTIAL = 3;
+
+const USAGE = `Uso: npm run generate -- <ia|csv> [opções]
+
+  ia                      Gera frases e carrosséis a partir do nicho e contexto.
+  csv                     Gera o conceito visual para as frases de um CSV (--file).
+
+Opções gerais:
+  --config <arquivo>      JSON com os parâmetros (os mesmos campos do projeto salvo); as opções abaixo têm prioridade.
+  --file <arquivo.csv>    CSV de entrada (modo csv).
+  --out <pasta>           Pasta de saída (padrão: output).
+  --provider <id>         ${Object.keys(PROVIDERS).join(', ')} (padrão: AI_PROVIDER, senão gemini, que exige GEMINI_API_KEY).
+  --language <código>     Idioma padrão das frases (padrão: pt).
+  --phrases-language <código>   Idioma das frases: ${Object.keys(PHRASE_LANGUAGES).join(', ')}.
+  --format <id>           ${Object.keys(SLIDE_FORMATS).join(', ')}.
+  --background, --palette, --typography, --cta-type <id ou rótulo>
+                          Ids: ${Object.entries(STYLE_OPTIONS).map(([group, ids]) => `${group} ${ids.join('/')}`).join('; ')}.
+  --no-cta                Sem slide de CTA.
+  --hashtags <n>          Hashtags por carrossel (${HASHTAGS_RANGE.min}-${HASHTAGS_RANGE.max}).
+  --no-images             Não gera imagens de fundo; usa a paleta.
+  --zip                   Também grava um ZIP por carrossel.
+  --fonts <pasta>         Registra as fontes .ttf/.otf da pasta para a renderização.
+
+Modo ia:
+  --niche, --context, --tone <texto>
+  --slides <n>            Slides por carrossel (${SLIDES_RANGE.min}-${SLIDES_RANGE.max}).
+  --carousels <n>         Quantidade de carrosséis (${CAROUSELS_RANGE.min}-${CAROUSELS_RANGE.max}).
+  --hooks <n>             Ganchos da capa para teste A/B (${HOOKS_RANGE.min}-${HOOKS_RANGE.max}); cada um vira slide_1_A.png, slide_1_B.png...
+
+Códigos de saída: 0 sucesso, 1 falha na geração, 2 argumentos ou entrada inválidos, 3 concluído com falhas de imagem ou renderização.
+`;
+
+// The summary is written in Portuguese, like the rest of the command line.
+const reportTranslator = createTranslator(DEFAULT_LOCALE);
+
+const usageError = (message: string) => Object.assign(new Error(message), { exitCode: EXIT_USAGE });
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  strict: false,
+  options: {
+    help: { type: 'boolean', short: 'h' },
+    config: { type: 'string' },
+    file: { type: 'string' },
+    out: { type: 'string' },
+    provider: { type: 'string' },
+    language: { type: 'string' },
+    'phrases-language': { type: 'string' },
+    format: { type: 'string' },
+    niche: { type: 'string' },
+    context: { type: 'string' },
+    tone: { type: 'string' },
+    slides: { type: 'string' },
+    carousels: { type: 'string' },
+    hooks: { type: 'string' },
+    background: { type: 'string' },
+    palette: { type: 'string' },
+    typography: { type: 'string' },
+    'cta-type': { type: 'string' },
+    'no-cta': { type: 'boolean' },
+    hashtags: { type: 'string' },
+    'no-images': { type: 'boolean' },
+    zip: { type: 'boolean' },
+    fonts: { type: 'string' },
+  },
+});
+
+// The command line, with every flag's value as typed; numbers and ids are checked where they are used.
+interface CliArgs {
+  help: boolean;
+  config?: string;
+  file?: string;
+  out?: string;
+  provider?: string;
+  language?: string;
+  phrasesLanguage?: string;
+  format?: string;
+  niche?: string;
+  context?: string;
+  tone?: string;
+  slides?: string;
+  carousels?: string;
+  hooks?: string;
+  background?: string;
+  palette?: string;
+  typography?: string;
+  ctaType?: string;
+  noCta: boolean;
+  hashtags?: string;
+  noImages: boolean;
+  zip: boolean;
+  fonts?: string;
+}
+
+const stringValue = (name: string) => (typeof values[name] === 'string' ? values[name] : undefined);
+
+const args: CliArgs = {
+  help: values.help === true,
+  config: stringValue('config'),
+  file: stringValue('file'),
+  out: stringValue('out'),
+  provider: stringValue('provider'),
+  language: stringValue('language'),
+  phrasesLanguage: stringValue('phrases-language'),
+  format: stringValue('format'),
+  niche: stringValue('niche'),
+  context: stringValue('context'),
+  tone: stringValue('tone'),
+  slides: stringValue('slides'),
+  carousels: stringValue('carousels'),
+  hooks: stringValue('hooks'),
+  background: stringValue('background'),
+  palette: stringValue('palette'),
+  typography: stringValue('typography'),
+  ctaType: stringValue('cta-type'),
+  noCta: values['no-cta'] === true,
+  hashtags: stringValue('hashtags'),
+  noImages: values['no-images'] === true,
+  zip: values.zip === true,
+  fonts: stringValue('fonts'),
+};
+
+// The --config file: a saved project's generation parameters, plus where to read and write.
+type CliConfig = Partial<Omit<IAGenerationParams, 'format'> & Omit<CSVGenerationParams, 'format'>> & {
+  // Checked like --format, so any string may come in.
+  format?: string;
+  file?: string;
+  out?: string;
+};
+
+const integerArg = (flag: string, raw: string | undefined, min: number, max: number) => {
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw usageError(`--${flag} deve ser um número inteiro entre ${min} e ${max}.`);
+  }
+  return value;
+};
+
+const readConfig = async (): Promise<CliConfig> => {
+  const file = args.config;
+  if (!file) return {};
+  let config: unknown;
+  try {
+    config = JSON.parse(await readFile(file, 'utf8'));
+  } catch (error: any) {
+    throw usageError(`Não foi possível ler a configuração ${file}: ${error.message}`);
+  }
+  if (!isObject(config)) throw usageError(`A configuração ${file} deve ser um objeto JSON.`);
+  return config as CliConfig;
+};
+
+// --provider, then AI_PROVIDER, then Gemini when a key is set. Unlike the web app, the
+// command line never falls back to the offline fixtures on its own: without a key it
+// stops and says so, instead of writing sample content or failing on the network.
+const selectProvider = (): ProviderId => {
+  // Vite maps GEMINI_API_KEY to API_KEY for the browser; do the same here.
+  if (!process.env.API_KEY && process.env.GEMINI_API_KEY) process.env.API_KEY = process.env.GEMINI_API_KEY;
+  const requested = args.provider ?? process.env.AI_PROVIDER;
+  const id = requested ?? 'gemini';
+  if (!isProviderId(id)) {
+    throw usageError(`Provedor desconhecido: ${id}. Use ${Object.keys(PROVIDERS).join(', ')}.`);
+  }
+  if (!isProviderConfigured(id)) {
+    throw usageError(requested
+      ? `O provedor ${id} precisa de uma chave de API: defina GEMINI_API_KEY.`
+      : 'Nenhuma chave de API configurada: defina GEMINI_API_KEY, escolha outro provedor com --provider ou AI_PROVIDER, ou use --provider fixture para conteúdo de exemplo offline.');
+  }
+  setActiveProviderId(id);
+  return id;
+};
+
+// An id or a label in any UI language, e.g. 'dark' or 'Fundo escuro'.
+const styleArg = <G extends StyleGroup>(group: G, flag: string, argValue: string | undefined, configValue: unknown): StyleOptionId<G> => {
+  const value = argValue ?? configValue;
+  if (value === undefined) return STYLE_OPTIONS[group][0] as StyleOptionId<G>;
+  const id = findStyleId(group, value);
+  if (!id) throw usageError(`Valor desconhecido para --${flag}: ${value}. Use ${STYLE_OPTIONS[group].join(', ')}.`);
+  return id;
+};
+
+// Style settings shared by both modes: flags first, then config, with the form's defaults.
+const getStyleParams = (config: CliConfig) => {
+  const format = args.format ?? config.format ?? DEFAULT_SLIDE_FORMAT;
+  if (!Object.prototype.hasOwnProperty.call(SLIDE_FORMATS, format)) {
+    throw usageError(`Formato desconhecido: ${format}. Use ${Object.keys(SLIDE_FORMATS).join(', ')}.`);
+  }
+  return {
+    backgroundStyle: styleArg('background', 'background', args.background, config.backgroundStyle),
+    colorPalette: styleArg('palette', 'palette', args.palette, config.colorPalette),
+    typography: styleArg('typography', 'typography', args.typography, config.typography),
+    cta: args.noCta ? false : config.cta ?? true,
+    ctaType: styleArg('ctaType', 'cta-type', args.ctaType, config.ctaType),
+    format: format as SlideFormatId,
+    hashtagsCount: integerArg('hashtags', args.hashtags, HASHTAGS_RANGE.min, HASHTAGS_RANGE.max) ?? config.hashtagsCount ?? HASHTAGS_RANGE.default,
+    ...(config.brandKit ? { brandKit: config.brandKit } : {}),
+  };
+};
+
+const getIAParams = (config: CliConfig, phrasesLanguage: Language): IAGenerationParams => {
+  const params: IAGenerationParams = {
+    ...getStyleParams(config),
+    niche: args.niche ?? config.niche ?? '',
+    context: args.context ?? config.context ?? '',
+    tone: args.tone ?? config.tone ?? '',
+    slidesCount: integerArg('slides', args.slides, SLIDES_RANGE.min, SLIDES_RANGE.max) ?? config.slidesCount ?? SLIDES_RANGE.default,
+    carouselsCount: integerArg('carousels', args.carousels, CAROUSELS_RANGE.min, CAROUSELS_RANGE.max) ?? config.carouselsCount ?? CAROUSELS_RANGE.default,
+    hooksCount: integerArg('hooks', args.hooks, HOOKS_RANGE.min, HOOKS_RANGE.max) ?? config.hooksCount ?? HOOKS_RANGE.default,
+    phrasesLanguage,
+  };
+  if (!params.niche.trim()) throw usageError('Informe o nicho com --niche ou no arquivo de configuração.');
+  return params;
+};
+
+const readCsvRows = async (file: string | undefined) => {
+  if (!file) throw usageError('Informe o CSV com --file.');
+  let bytes: Buffer;
+  try {
+    bytes = await readFile(file);
+  } catch (error: any) {
+    throw usageError(`Não foi possível ler ${file}: ${error.message}`);
+  }
+  const result = importCsv(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+  if (result.missingColumns.length > 0) {
+    throw usageError(`Colunas obrigatórias ausentes no CSV: ${result.missingColumns.join(', ')}.`);
+  }
+  if (result.rows.length === 0) throw usageError('O CSV não tem linhas válidas.');
+  if (result.rejectedCount > 0) {
+    console.error(`${result.rejectedCount} linha(s) inválida(s) do CSV ignorada(s).`);
+  }
+  return { rows: result.rows, fileName: path.basename(file) };
+};
+
+const toBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+// Renders one carousel into its folder: slides, caption, alt texts and optionally a ZIP.
+const writeCarousel = async (carousel: Carousel, outDir: string, folderName: string, options: { images: boolean; zip: boolean }) => {
+  const format = SLIDE_FORMATS[carousel.formato ?? DEFAULT_SLIDE_FORMAT];
+  const folder = path.join(outDir, folderName);
+  await mkdir(folder, { recursive: true });
+
+  const backgrounds: Record<string, HTMLImageElement | null> = {};
+  const failedImages: { prompt: string; erro: string }[] = [];
+  if (options.images && usesPhotoBackground(carousel)) {
+    const prompts = Array.from(new Set(carousel.slides.map(slide => slide.prompt_imagem).filter(Boolean)));
+    await Promise.all(prompts.map(async prompt => {
+      const url = await requestImage(prompt, format);
+      backgrounds[prompt] = url ? await loadImage(url) : null;
+      const error = getImageJob(prompt, format)?.error;
+      if (!backgrounds[prompt]) failedImages.push({ prompt, erro: error ? describeError(reportTranslator, error) : 'Imagem ilegível.' });
+    }));
+  }
+
+  const logo = carousel.marca?.logo ? await loadImage(carousel.marca.logo) : null;
+  const zip = options.zip ? new JSZip() : null;
+  const slides = [];
+  const failedSlides: number[] = [];
+  // A cover with A/B hooks is rendered once per hook.
+  for (const { slide, suffix, hook } of carousel.slides.flatMap(getExportSlides)) {
+    const file = `slide_${slide.ordem}${suffix}.png`;
+    const blob = await renderSlideToBlob(slide, carousel, backgrounds[slide.prompt_imagem] ?? null, format, logo);
+    if (!blob) {
+      failedSlides.push(slide.ordem);
+      continue;
+    }
+    const bytes = await toBytes(blob);
+    await writeFile(path.join(folder, file), bytes);
+    zip?.file(file, bytes);
+    slides.push({ ordem: slide.ordem, ...(hook ? { gancho: hook.letter } : {}), arquivo: path.join(folder, file), ajuste: measureSlideText(slide, carousel, format)?.status ?? null });
+  }
+
+  const caption = getCaptionText(carousel);
+  const firstComment = getFirstCommentText(carousel);
+  const altTexts = JSON.stringify(getAltTexts(carousel), null, 2);
+  await writeFile(path.join(folder, 'caption.txt'), caption);
+  if (firstComment) await writeFile(path.join(folder, 'first_comment.txt'), firstComment);
+  await writeFile(path.join(folder, 'alt_text.json'), altTexts);
+  let zipPath: string | null = null;
+  if (zip) {
+    zip.file('caption.txt', caption);
+    if (firstComment) zip.file('first_comment.txt', firstComment);
+    zip.file('alt_text.json', altTexts);
+    zipPath = path.join(outDir, `${folderName}.zip`);
+    await writeFile(zipPath, await zip.generateAsync({ type: 'uint8array' }));
+  }
+
+  return {
+    id: carousel.id,
+    pasta: folder,
+    formato: format.id,
+    slides,
+    zip: zipPath,
+    imagens_com_falha: failedImages,
+    slides_com_falha: failedSlides,
+  };
+};
+
+const main = async () => {
+  if (args.help) {
+    process.stdout.write(USAGE);
+    return EXIT_OK;
+  }
+  const mode = positionals[0] as GenerationMode | undefined;
+  if (mode !== 'ia' && mode !== 'csv') throw usageError('Informe o modo: ia ou csv.');
+
+  const config = await readConfig();
+  const language: Language = args.language ?? config.language ?? DEFAULT_LOCALE;
+  if (!isPhraseLanguage(language) && !Object.prototype.hasOwnProperty.call(LOCALES, language)) {
+    throw usageError(`Idioma desconhecido: ${language}. Use ${Object.keys(PHRASE_LANGUAGES).join(', ')}.`);
+  }
+  const phrasesLanguage: Language = args.phrasesLanguage ?? config.phrasesLanguage ?? getDefaultPhraseLanguage(language);
+  if (!isPhraseLanguage(phrasesLanguage)) {
+    throw usageError(`Idioma das frases desconhecido: ${phrasesLanguage}. Use ${Object.keys(PHRASE_LANGUAGES).join(', ')}.`);
+  }
+  const outDir = path.resolve(args.out ?? config.out ?? 'output');
+
+  const iaParams = mode === 'ia' ? getIAParams(config, phrasesLanguage) : null;
+  const csv = mode === 'csv' ? await readCsvRows(args.file ?? config.file) : null;
+  const provider = selectProvider();
+  setCanvasPlatform(nodeCanvasPlatform);
+  const fontsDir = args.fonts;
+  if (fontsDir) console.error(`${loadFontsFromDir(fontsDir)} fonte(s) carregada(s) de ${fontsDir}.`);
+
+  let reported = -1;
+  const options: GenerationOptions = {
+    onProgress: ({ carousels, slides, expectedCarousels }) => {
+      if (carousels === reported) return;
+      reported = carousels;
+      console.error(`Carrosséis prontos: ${carousels}/${expectedCarousels ?? '?'} (${slides} slides).`);
+    },
+  };
+
+  console.error(`Gerando no modo ${mode} com o provedor ${provider}...`);
+  let response: ApiResponse;
+  try {
+    response = iaParams
+      ? await generateCarouselsFromIA(iaParams, options)
+      : await generateCarouselsFromCSV(csv!.rows, { ...getStyleParams(config), language: phrasesLanguage } as CSVGenerationParams, options);
+  } catch (error: any) {
+    throw Object.assign(error instanceof Error ? error : new Error(String(error)), { exitCode: EXIT_GENERATION_FAILED });
+  }
+
+  await mkdir(outDir, { recursive: true });
+  const responsePath = path.join(outDir, 'response.json');
+  await writeFile(responsePath, JSON.stringify(response, null, 2));
+
+  const usedNames = new Set<string>();
+  const carrosseis = [];
+  for (const carousel of response.carrosseis) {
+    console.error(`Renderizando ${carousel.id}...`);
+    carrosseis.push(await writeCarousel(carousel, outDir, toFolderName(carousel.id, usedNames), { images: !args.noImages, zip: args.zip }));
+  }
+
+  const hasFailures = carrosseis.some(c => c.imagens_com_falha.length > 0 || c.slides_com_falha.length > 0);
+  const exitCode = hasFailures ? EXIT_PARTIAL : EXIT_OK;
+  process.stdout.write(`${JSON.stringify({ ok: true, codigo: exitCode, modo: mode, provedor: provider, entrada: csv?.fileName ?? null, saida: outDir, resposta: responsePath, carrosseis }, null, 2)}\n`);
+  return exitCode;
+};
+
+main().then(
+  code => process.exit(code),
+  (error: unknown) => {
+    const exitCode = isObject(error) ? error.exitCode : undefined;
+    const code = typeof exitCode === 'number' ? exitCode : EXIT_GENERATION_FAILED;
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(message);
+    if (code === EXIT_USAGE) console.error(`\n${USAGE}`);
+    process.stdout.write(`${JSON.stringify({ ok: false, codigo: code, erro: message }, null, 2)}\n`);
+    process.exit(code);
+  },
+);
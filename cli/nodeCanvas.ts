@@ -0,0 +1,24 @@
+import { createCanvas, loadImage, GlobalFonts, type Canvas } from '@napi-rs/canvas';
+import type { CanvasPlatform } from '../services/slideRenderer';
+
+// The slide renderer draws through the DOM canvas API; @napi-rs/canvas implements the
+// same API natively, so its objects stand in for the browser's.
+
+// loadImage only reads base64 data URLs; the fixture provider's SVGs are percent-encoded.
+const toImageSource = (src: string) => {
+  const match = /^data:[^,]*?(;base64)?,(.*)$/s.exec(src);
+  return match && !match[1] ? Buffer.from(decodeURIComponent(match[2])) : src;
+};
+
+export const nodeCanvasPlatform: CanvasPlatform = {
+  createCanvas: (width, height) => createCanvas(width, height) as unknown as HTMLCanvasElement,
+  loadImage: src => loadImage(toImageSource(src)).then(image => image as unknown as HTMLImageElement, () => null),
+  toBlob: async (canvas, type, quality) => {
+    const node = canvas as unknown as Canvas;
+    const bytes = type === 'image/jpeg' ? await node.encode('jpeg', Math.round((quality ?? 0.92) * 100)) : await node.encode('png');
+    return new Blob([new Uint8Array(bytes)], { type });
+  },
+};
+
+/** Registers every font file in the directory; returns how many were loaded. */
+export const loadFontsFromDir = (dir: string) => GlobalFonts.loadFontsFromDir(dir);
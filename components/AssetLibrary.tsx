@@ -0,0 +1,197 @@
+import React, { FC, useEffect, useState, ChangeEvent, DragEvent } from 'react';
+import type { Asset, BackgroundImage, Carousel } from '../types';
+import { describeError, type Translate } from '../locales';
+import { listAssets, deleteAsset, addAssetFromFile, ASSET_DRAG_TYPE } from '../services/assetStore';
+import { TrashIcon, UploadIcon, LoaderIcon } from './Icons';
+
+const smallButtonClass = "flex items-center px-3 py-1.5 text-xs font-semibold text-gray-200 transition bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50";
+
+/** True while an asset from the library is dragged over an element. */
+export const isAssetDrag = (e: DragEvent) => e.dataTransfer.types.includes(ASSET_DRAG_TYPE);
+
+interface AssetLibraryProps {
+  t: Translate;
+}
+
+// Uploaded images, dragged from here onto a slide preview or a carousel's background drop zone.
+export const AssetLibrary: FC<AssetLibraryProps> = ({ t }) => {
+  const [assets, setAssets] = useState<Asset[] | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => listAssets().then(setAssets).catch(err => {
+    console.error(err);
+    setError(describeError(t, err));
+  });
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const upload = async (files: File[]) => {
+    setIsUploading(true);
+    setError(null);
+    try {
+      for (const file of files) {
+        await addAssetFromFile(file);
+      }
+    } catch (err: unknown) {
+      setError(describeError(t, err));
+    } finally {
+      setIsUploading(false);
+      refresh();
+    }
+  };
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length > 0) upload(files);
+  };
+
+  // Files dropped from the desktop are uploaded; assets dragged within the page are ignored.
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const files = Array.from<File>(e.dataTransfer.files);
+    if (files.length > 0) upload(files);
+  };
+
+  const handleDelete = async (asset: Asset) => {
+    if (!window.confirm(t('confirmDeleteAsset', { name: asset.name }))) return;
+    setError(null);
+    try {
+      await deleteAsset(asset.id);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(describeError(t, err));
+    }
+    refresh();
+  };
+
+  return (
+    <details className="p-4 mb-6 bg-gray-800 rounded-lg">
+      <summary className="font-semibold text-gray-200 cursor-pointer">{t('assetLibrary')} {assets ? `(${assets.length})` : ''}</summary>
+      <div
+        onDragOver={(e) => {
+          if (isAssetDrag(e)) return;
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`mt-3 p-3 border-2 border-dashed rounded-lg transition-colors ${isDragging ? 'border-indigo-500 bg-gray-700/50' : 'border-gray-700'}`}
+      >
+        <div className="flex flex-wrap items-center gap-3 mb-3">
+          <label className={`${smallButtonClass} cursor-pointer`}>
+            {isUploading ? <LoaderIcon /> : <UploadIcon className="w-4 h-4 mr-1" />} {t('uploadImages')}
+            <input type="file" accept="image/*" multiple className="hidden" onChange={handleFileChange} />
+          </label>
+          <p className="text-xs text-gray-400">{t('assetLibraryHint')}</p>
+        </div>
+        {error && <p className="mb-3 text-sm text-red-400">{error}</p>}
+        {assets && assets.length === 0 && <p className="text-sm text-gray-500">{t('noAssets')}</p>}
+        <div className="grid grid-cols-4 gap-2 md:grid-cols-8">
+          {assets?.map(asset => (
+            <div
+              key={asset.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.setData(ASSET_DRAG_TYPE, asset.id);
+                e.dataTransfer.effectAllowed = 'copy';
+              }}
+              className="relative overflow-hidden bg-gray-900 rounded-md cursor-grab group aspect-square"
+              title={asset.name}
+            >
+              <img src={asset.dataUrl} alt={asset.name} className="object-cover w-full h-full pointer-events-none" />
+              <button
+                onClick={() => handleDelete(asset)}
+                title={t('deleteAsset')}
+                className="absolute p-1 text-gray-200 transition rounded opacity-0 top-1 right-1 bg-black/60 group-hover:opacity-100 hover:text-white"
+              >
+                <TrashIcon className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </details>
+  );
+};
+
+interface BackgroundControlsProps {
+  t: Translate;
+  carousel: Carousel;
+  slideIndex: number;
+  onChange: (carousel: Carousel) => void;
+  onAssignCarousel: (assetId: string) => void;
+}
+
+const RangeField: FC<{ label: string; value: number; min: number; max: number; step: number; onChange: (value: number) => void }> = ({ label, value, min, max, step, onChange }) => (
+  <label className="flex items-center gap-2 text-xs text-gray-400">
+    <span className="w-16 shrink-0">{label}</span>
+    <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} className="flex-1 accent-indigo-500" />
+  </label>
+);
+
+// Carousel-wide drop zone plus crop controls for the background the current slide shows.
+export const BackgroundControls: FC<BackgroundControlsProps> = ({ t, carousel, slideIndex, onChange, onAssignCarousel }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const slide = carousel.slides[slideIndex];
+  const ownBackground = slide?.fundo;
+  const background = ownBackground ?? carousel.fundo;
+
+  const setBackground = (patch: Partial<BackgroundImage>) => {
+    if (!background) return;
+    const next = { ...background, ...patch };
+    onChange(ownBackground
+      ? { ...carousel, slides: carousel.slides.map((s, i) => (i === slideIndex ? { ...s, fundo: next } : s)) }
+      : { ...carousel, fundo: next });
+  };
+
+  const removeSlideBackground = () =>
+    onChange({ ...carousel, slides: carousel.slides.map((s, i) => (i === slideIndex ? { ...s, fundo: undefined } : s)) });
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div
+        onDragOver={(e) => {
+          if (!isAssetDrag(e)) return;
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          const assetId = e.dataTransfer.getData(ASSET_DRAG_TYPE);
+          if (assetId) onAssignCarousel(assetId);
+        }}
+        className={`flex items-center justify-between gap-2 p-2 text-xs border border-dashed rounded-md ${isDragging ? 'border-indigo-500 bg-gray-700/50 text-gray-200' : 'border-gray-700 text-gray-500'}`}
+      >
+        <span>{carousel.fundo ? t('carouselBackgroundSet') : t('dropCarouselBackground')}</span>
+        {carousel.fundo && (
+          <button onClick={() => onChange({ ...carousel, fundo: undefined })} className="p-1 text-gray-400 hover:text-white" title={t('removeBackground')}>
+            <TrashIcon className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+      {background && (
+        <div className="p-2 space-y-1 bg-gray-900 rounded-md">
+          <div className="flex items-center justify-between text-xs text-gray-300">
+            <span>{t(ownBackground ? 'cropSlideBackground' : 'cropCarouselBackground')}</span>
+            {ownBackground && (
+              <button onClick={removeSlideBackground} className="p-1 text-gray-400 hover:text-white" title={t('removeBackground')}>
+                <TrashIcon className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+          <RangeField label={t('cropZoom')} value={background.zoom} min={1} max={3} step={0.05} onChange={(zoom) => setBackground({ zoom })} />
+          <RangeField label={t('cropX')} value={background.x} min={0} max={1} step={0.01} onChange={(x) => setBackground({ x })} />
+          <RangeField label={t('cropY')} value={background.y} min={0} max={1} step={0.01} onChange={(y) => setBackground({ y })} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { FC, useEffect, useState, ChangeEvent } from 'react';
+import type { BrandKit, ColorPalette, LogoPosition } from '../types';
+import type { Translate } from '../locales';
+import { listBrandKits, saveBrandKit, deleteBrandKit, createBrandKit } from '../services/brandKitStore';
+import { getBackgroundCss, getBrandFooterText } from '../services/slideRenderer';
+import { PlusIcon, TrashIcon, EditIcon, UploadIcon } from './Icons';
+
+const LOGO_POSITIONS: LogoPosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+const fieldClass = "w-full p-2 text-sm bg-gray-700 border border-gray-600 rounded-md focus:ring-indigo-500 focus:border-indigo-500";
+const smallButtonClass = "flex items-center px-3 py-1.5 text-xs font-semibold text-gray-200 transition bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50";
+
+interface BrandKitPickerProps {
+  t: Translate;
+  value?: BrandKit;
+  onChange: (kit: BrandKit | undefined) => void;
+}
+
+export const BrandKitPicker: FC<BrandKitPickerProps> = ({ t, value, onChange }) => {
+  const [kits, setKits] = useState<BrandKit[]>([]);
+  const [draft, setDraft] = useState<BrandKit | null>(null);
+
+  const refresh = () => listBrandKits().then(setKits).catch(err => console.error('Failed to load brand kits', err));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // A kit restored with a project may have been deleted since; keep it selectable.
+  const options = value && !kits.some(k => k.id === value.id) ? [value, ...kits] : kits;
+
+  const handleSave = async (kit: BrandKit) => {
+    await saveBrandKit(kit);
+    setDraft(null);
+    onChange(kit);
+    refresh();
+  };
+
+  const handleDelete = async (kit: BrandKit) => {
+    if (!window.confirm(t('confirmDeleteBrandKit').replace('{name}', kit.name))) return;
+    await deleteBrandKit(kit.id);
+    setDraft(null);
+    if (value?.id === kit.id) onChange(undefined);
+    refresh();
+  };
+
+  return (
+    <div className="w-full">
+      <label className="block mb-2 text-sm font-medium text-gray-300">{t('brandKit')}</label>
+      <div className="flex gap-2">
+        <select
+          value={value?.id ?? ''}
+          onChange={(e) => onChange(options.find(k => k.id === e.target.value))}
+          className="flex-1 p-3 bg-gray-700 border border-gray-600 rounded-lg focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          <option value="">{t('noBrandKit')}</option>
+          {options.map(kit => <option key={kit.id} value={kit.id}>{kit.name}</option>)}
+        </select>
+        {value && <button type="button" title={t('editBrandKit')} onClick={() => setDraft(value)} className={smallButtonClass}><EditIcon className="w-4 h-4" /></button>}
+        <button type="button" title={t('newBrandKit')} onClick={() => setDraft(createBrandKit(t('newBrandKit')))} className={smallButtonClass}><PlusIcon className="w-4 h-4" /></button>
+      </div>
+      {draft && (
+        <BrandKitEditor
+          key={draft.id}
+          t={t}
+          kit={draft}
+          canDelete={kits.some(k => k.id === draft.id)}
+          onSave={handleSave}
+          onDelete={handleDelete}
+          onCancel={() => setDraft(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+const ColorField: FC<{ label: string; value: string; onChange: (color: string) => void }> = ({ label, value, onChange }) => (
+  <label className="flex items-center gap-2 text-xs text-gray-300">
+    <input type="color" value={value} onChange={(e) => onChange(e.target.value.toUpperCase())} className="w-8 h-8 bg-transparent border-0 cursor-pointer" />
+    <span className="flex-1">{label}</span>
+    <span className="font-mono text-gray-500">{value}</span>
+  </label>
+);
+
+// Terms are edited as comma-separated text and split when the field loses focus.
+const parseTerms = (value: string) => Array.from(new Set(value.split(/[,\n]/).map(term => term.trim()).filter(Boolean)));
+
+const TermsField: FC<{ label: string; value?: string[]; onChange: (terms: string[]) => void }> = ({ label, value = [], onChange }) => {
+  const text = value.join(', ');
+  const [draft, setDraft] = useState(text);
+  // A new value from outside (another kit, or the parsed terms) replaces the text.
+  const [shown, setShown] = useState(text);
+  if (text !== shown) {
+    setShown(text);
+    setDraft(text);
+  }
+  return (
+    <>
+      <label className="block text-xs text-gray-400">{label}</label>
+      <input value={draft} onChange={(e) => setDraft(e.target.value)} onBlur={() => onChange(parseTerms(draft))} className={fieldClass} />
+    </>
+  );
+};
+
+interface BrandKitEditorProps {
+  t: Translate;
+  kit: BrandKit;
+  canDelete: boolean;
+  onSave: (kit: BrandKit) => void;
+  onDelete: (kit: BrandKit) => void;
+  onCancel: () => void;
+}
+
+const BrandKitEditor: FC<BrandKitEditorProps> = ({ t, kit, canDelete, onSave, onDelete, onCancel }) => {
+  const [draft, setDraft] = useState<BrandKit>(kit);
+
+  const setColors = (patch: Partial<ColorPalette>) => setDraft(d => ({ ...d, colors: { ...d.colors, ...patch } }));
+  const gradient = draft.colors.gradient;
+
+  const setGradientStop = (index: number, color: string) =>
+    setColors({ gradient: gradient?.map((c, i) => (i === index ? color : c)) });
+
+  const handleLogoChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setDraft(d => ({ ...d, logo: reader.result as string }));
+    reader.readAsDataURL(file);
+  };
+
+  const footerText = getBrandFooterText(draft);
+
+  return (
+    <div className="p-4 mt-3 space-y-4 bg-gray-900 rounded-lg">
+      <input value={draft.name} onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))} placeholder={t('brandKitName')} className={fieldClass} />
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <ColorField label={t('brandBackground')} value={draft.colors.background} onChange={(background) => setColors({ background })} />
+          <ColorField label={t('brandText')} value={draft.colors.text} onChange={(text) => setColors({ text })} />
+          <ColorField label={t('brandAccent')} value={draft.colors.accent} onChange={(accent) => setColors({ accent })} />
+          <label className="flex items-center gap-2 pt-2 text-xs text-gray-300">
+            <input
+              type="checkbox"
+              checked={Boolean(gradient)}
+              onChange={(e) => setColors({ gradient: e.target.checked ? [draft.colors.background, draft.colors.accent] : undefined })}
+              className="rounded accent-indigo-500"
+            />
+            {t('brandGradient')}
+          </label>
+          {gradient && (
+            <div className="pl-4 space-y-2">
+              {gradient.map((color, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <div className="flex-1"><ColorField label={`${t('brandGradientStop')} ${i + 1}`} value={color} onChange={(c) => setGradientStop(i, c)} /></div>
+                  <button type="button" onClick={() => setColors({ gradient: gradient.filter((_, j) => j !== i) })} disabled={gradient.length <= 2} className="p-1 text-gray-400 hover:text-white disabled:opacity-30"><TrashIcon className="w-4 h-4" /></button>
+                </div>
+              ))}
+              <button type="button" onClick={() => setColors({ gradient: [...gradient, gradient[gradient.length - 1]] })} className={smallButtonClass}><PlusIcon className="w-4 h-4 mr-1" /> {t('brandAddStop')}</button>
+            </div>
+          )}
+        </div>
+        <div className="space-y-2">
+          <label className="block text-xs text-gray-400">{t('brandHandle')}</label>
+          <input value={draft.handle} onChange={(e) => setDraft(d => ({ ...d, handle: e.target.value }))} placeholder="@suamarca" className={fieldClass} />
+          <label className="block text-xs text-gray-400">{t('brandFooter')}</label>
+          <input value={draft.footer} onChange={(e) => setDraft(d => ({ ...d, footer: e.target.value }))} className={fieldClass} />
+          <TermsField label={t('brandBannedTerms')} value={draft.bannedTerms} onChange={(bannedTerms) => setDraft(d => ({ ...d, bannedTerms }))} />
+          <TermsField label={t('brandRequiredTerms')} value={draft.requiredTerms} onChange={(requiredTerms) => setDraft(d => ({ ...d, requiredTerms }))} />
+          <p className="text-xs text-gray-500">{t('brandTermsHint')}</p>
+          <label className="block text-xs text-gray-400">{t('brandLogo')}</label>
+          <div className="flex items-center gap-2">
+            <label className={`${smallButtonClass} cursor-pointer`}>
+              <UploadIcon className="w-4 h-4 mr-1" /> {t('uploadFile')}
+              <input type="file" accept="image/*" className="hidden" onChange={handleLogoChange} />
+            </label>
+            {draft.logo && <button type="button" onClick={() => setDraft(d => ({ ...d, logo: undefined }))} className="p-1 text-gray-400 hover:text-white"><TrashIcon className="w-4 h-4" /></button>}
+          </div>
+          {draft.logo && (
+            <div className="grid grid-cols-2 gap-2">
+              <select value={draft.logoPosition} onChange={(e) => setDraft(d => ({ ...d, logoPosition: e.target.value as LogoPosition }))} className={fieldClass}>
+                {LOGO_POSITIONS.map(p => <option key={p} value={p}>{t(`logoPosition_${p}`)}</option>)}
+              </select>
+              <input type="range" min={0.05} max={0.4} step={0.01} value={draft.logoSize} onChange={(e) => setDraft(d => ({ ...d, logoSize: Number(e.target.value) }))} title={t('brandLogoSize')} className="accent-indigo-500" />
+            </div>
+          )}
+        </div>
+      </div>
+      <div className="relative w-40 overflow-hidden rounded-md aspect-square" style={{ background: getBackgroundCss(draft.colors) }}>
+        <p className="absolute inset-0 flex items-center justify-center p-3 text-sm font-bold text-center" style={{ color: draft.colors.text }}>{t('brandPreviewText')}</p>
+        {footerText && <p className="absolute inset-x-0 bottom-1 text-[8px] text-center truncate" style={{ color: draft.colors.accent }}>{footerText}</p>}
+        {draft.logo && (
+          <img
+            src={draft.logo}
+            alt=""
+            className={`absolute ${draft.logoPosition.startsWith('top') ? 'top-1' : 'bottom-1'} ${draft.logoPosition.endsWith('left') ? 'left-1' : 'right-1'}`}
+            style={{ width: `${draft.logoSize * 100}%` }}
+          />
+        )}
+      </div>
+      <div className="flex gap-2">
+        <button type="button" onClick={() => onSave({ ...draft, name: draft.name.trim() || kit.name })} className="px-4 py-2 text-sm font-semibold text-white transition bg-indigo-600 rounded-md hover:bg-indigo-700">{t('saveBrandKit')}</button>
+        <button type="button" onClick={onCancel} className={smallButtonClass}>{t('cancel')}</button>
+        {canDelete && <button type="button" onClick={() => onDelete(kit)} className={`${smallButtonClass} ml-auto text-red-300`}><TrashIcon className="w-4 h-4 mr-1" /> {t('deleteBrandKit')}</button>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { FC } from 'react';
+import type { Slide } from '../types';
+import type { Translate } from '../locales';
+import { DEFAULT_LINT_CONFIG, LINT_CHECKS, type LintConfig, type LintIssue } from '../services/contentLint';
+
+const SLIDE_TYPES: Slide['tipo'][] = ['capa', 'conteudo', 'cta'];
+
+const numberClass = "w-20 p-1.5 text-xs bg-gray-800 border border-gray-700 rounded-md focus:ring-indigo-500 focus:border-indigo-500";
+
+interface LintSettingsProps {
+  t: Translate;
+  config: LintConfig;
+  issues: LintIssue[];
+  onChange: (config: LintConfig) => void;
+}
+
+// The checks run over every carousel; limits are per slide type.
+export const LintSettings: FC<LintSettingsProps> = ({ t, config, issues, onChange }) => {
+  const setLimit = (field: 'maxChars' | 'maxWords', tipo: Slide['tipo'], value: number) =>
+    onChange({ ...config, [field]: { ...config[field], [tipo]: Math.max(1, value || 1) } });
+
+  return (
+    <details className="p-4 mb-6 text-xs text-gray-300 bg-gray-800 rounded-lg">
+      <summary className="text-sm font-semibold cursor-pointer hover:text-white">
+        {t('lintSettings')}
+        <span className={`ml-2 font-normal ${issues.length ? 'text-yellow-400' : 'text-gray-400'}`}>
+          {issues.length ? t('lintIssuesCount', { n: issues.length }) : t('lintNoIssues')}
+        </span>
+      </summary>
+      <div className="flex flex-wrap gap-x-4 gap-y-2 mt-3">
+        {LINT_CHECKS.map(check => (
+          <label key={check} className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={config.checks[check]}
+              onChange={(e) => onChange({ ...config, checks: { ...config.checks, [check]: e.target.checked } })}
+              className="rounded accent-indigo-500"
+            />
+            <span>{t(`lintCheck_${check}`)}</span>
+          </label>
+        ))}
+      </div>
+      <table className="mt-3">
+        <thead>
+          <tr className="text-gray-400">
+            <th></th>
+            <th className="px-2 font-medium text-left">{t('lintMaxChars')}</th>
+            <th className="px-2 font-medium text-left">{t('lintMaxWords')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {SLIDE_TYPES.map(tipo => (
+            <tr key={tipo}>
+              <td className="pr-2 text-gray-400">{t(`slideType_${tipo}`)}</td>
+              <td className="px-2 py-1"><input type="number" min={1} value={config.maxChars[tipo]} disabled={!config.checks.length} onChange={(e) => setLimit('maxChars', tipo, Number(e.target.value))} className={numberClass} /></td>
+              <td className="px-2 py-1"><input type="number" min={1} value={config.maxWords[tipo]} disabled={!config.checks.length} onChange={(e) => setLimit('maxWords', tipo, Number(e.target.value))} className={numberClass} /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mt-3">
+        <label className="flex items-center gap-2">
+          <span>{t('lintMaxSentenceWords')}</span>
+          <input type="number" min={1} value={config.maxWordsPerSentence} disabled={!config.checks.readability} onChange={(e) => onChange({ ...config, maxWordsPerSentence: Math.max(1, Number(e.target.value) || 1) })} className={numberClass} />
+        </label>
+        <label className="flex items-center gap-2">
+          <span>{t('lintSimilarity', { n: Math.round(config.similarity * 100) })}</span>
+          <input type="range" min={0.5} max={0.95} step={0.05} value={config.similarity} disabled={!config.checks.duplicates} onChange={(e) => onChange({ ...config, similarity: Number(e.target.value) })} className="accent-indigo-500" />
+        </label>
+        <button type="button" onClick={() => onChange(DEFAULT_LINT_CONFIG)} className="ml-auto text-gray-400 hover:text-gray-200">{t('lintResetDefaults')}</button>
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { FC, useEffect, useState } from 'react';
+import type { Carousel } from '../types';
+import type { Translate } from '../locales';
+import { getCaptionText, getFirstCommentText, parseHashtags } from '../services/postDetails';
+import { CopyIcon } from './Icons';
+
+interface PostDetailsProps {
+  t: Translate;
+  carousel: Carousel;
+  slideIndex: number;
+  onChange: (carousel: Carousel) => void;
+}
+
+const fieldClass = "w-full p-2 text-sm bg-gray-800 border border-gray-700 rounded-md focus:ring-indigo-500 focus:border-indigo-500";
+const labelClass = "block mb-1 text-xs font-medium text-gray-400";
+
+// Caption, hashtags, first comment and the current slide's alt text, all editable.
+export const PostDetails: FC<PostDetailsProps> = ({ t, carousel, slideIndex, onChange }) => {
+  const hashtagsText = (carousel.hashtags ?? []).join(' ');
+  // Hashtags are edited as free text and normalized when the field loses focus.
+  const [hashtagsDraft, setHashtagsDraft] = useState(hashtagsText);
+  // The text last copied, for the button's feedback.
+  const [copied, setCopied] = useState<'caption' | 'firstComment' | null>(null);
+  const [copyError, setCopyError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setHashtagsDraft(hashtagsText);
+  }, [hashtagsText]);
+
+  const slide = carousel.slides[slideIndex];
+
+  const setAltText = (texto_alternativo: string) =>
+    onChange({ ...carousel, slides: carousel.slides.map((s, i) => (i === slideIndex ? { ...s, texto_alternativo } : s)) });
+
+  // The caption button sits in the summary, so keep the click from toggling the section.
+  const handleCopy = async (e: React.MouseEvent, what: 'caption' | 'firstComment') => {
+    e.preventDefault();
+    setCopyError(null);
+    try {
+      await navigator.clipboard.writeText(what === 'caption' ? getCaptionText(carousel) : getFirstCommentText(carousel));
+      setCopied(what);
+      setTimeout(() => setCopied(null), 1500);
+    } catch (err) {
+      console.error('Failed to copy', err);
+      setCopyError(t('copyFailed'));
+    }
+  };
+
+  return (
+    <details className="mt-4 p-3 text-xs bg-gray-900 rounded-md" open>
+      <summary className="flex items-center justify-between font-semibold text-gray-200 cursor-pointer">
+        <span>{t('postDetails')}</span>
+        <button type="button" onClick={(e) => handleCopy(e, 'caption')} className="flex items-center px-2 py-1 font-semibold text-gray-200 transition bg-gray-700 rounded-md hover:bg-gray-600">
+          <CopyIcon className="w-3.5 h-3.5 mr-1" /> {t(copied === 'caption' ? 'captionCopied' : 'copyCaption')}
+        </button>
+      </summary>
+      {copyError && <p className="mt-2 text-red-400">{copyError}</p>}
+      <div className="mt-3 space-y-3">
+        <div>
+          <label className={labelClass}>{t('caption')}</label>
+          <textarea rows={5} value={carousel.legenda ?? ''} onChange={(e) => onChange({ ...carousel, legenda: e.target.value })} className={fieldClass} />
+        </div>
+        <div>
+          <label className={labelClass}>{t('hashtags')} ({carousel.hashtags?.length ?? 0})</label>
+          <input
+            value={hashtagsDraft}
+            onChange={(e) => setHashtagsDraft(e.target.value)}
+            onBlur={() => onChange({ ...carousel, hashtags: parseHashtags(hashtagsDraft) })}
+            placeholder="#nicho #dicas"
+            className={fieldClass}
+          />
+        </div>
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <label className="text-xs font-medium text-gray-400">{t('firstComment')}</label>
+            <button
+              type="button"
+              onClick={(e) => handleCopy(e, 'firstComment')}
+              disabled={!carousel.primeiro_comentario?.trim()}
+              className="flex items-center px-2 py-0.5 font-semibold text-gray-200 transition bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50"
+            >
+              <CopyIcon className="w-3.5 h-3.5 mr-1" /> {t(copied === 'firstComment' ? 'commentCopied' : 'copyFirstComment')}
+            </button>
+          </div>
+          <textarea rows={2} value={carousel.primeiro_comentario ?? ''} onChange={(e) => onChange({ ...carousel, primeiro_comentario: e.target.value })} className={fieldClass} />
+        </div>
+        {slide && (
+          <div>
+            <label className={labelClass}>{t('altText', { n: slide.ordem })}</label>
+            <textarea rows={2} value={slide.texto_alternativo ?? ''} onChange={(e) => setAltText(e.target.value)} className={fieldClass} />
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { FC, useEffect, useRef, useState, ChangeEvent } from 'react';
+import type { Project } from '../types';
+import { describeError, type Translate } from '../locales';
+import { listProjects, saveProject, deleteProject, duplicateProject, exportLibrary, importLibrary } from '../services/projectStore';
+import { CopyIcon, TrashIcon, EditIcon, DownloadIcon, UploadIcon, LoaderIcon } from './Icons';
+
+declare const saveAs: (blob: Blob, filename: string) => void;
+
+interface ProjectLibraryProps {
+  t: Translate;
+  locale: string;
+  currentProjectId: string | null;
+  onOpen: (project: Project) => void;
+  // Called after the currently open project was renamed or deleted.
+  onCurrentChanged: (project: Project | null) => void;
+}
+
+const iconButtonClass = "p-1.5 text-gray-400 rounded hover:text-white hover:bg-gray-700";
+
+const matchesSearch = (project: Project, query: string) => {
+  if (!query) return true;
+  const haystack = [
+    project.name,
+    ...project.response.carrosseis.flatMap(c => [c.id, c.nicho ?? '', ...c.slides.map(s => s.frase)]),
+  ].join(' ').toLowerCase();
+  return query.toLowerCase().split(/\s+/).every(term => haystack.includes(term));
+};
+
+export const ProjectLibrary: FC<ProjectLibraryProps> = ({ t, locale, currentProjectId, onOpen, onCurrentChanged }) => {
+  const [projects, setProjects] = useState<Project[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+
+  const refresh = () => listProjects().then(setProjects).catch(err => {
+    console.error(err);
+    setError(describeError(t, err));
+  });
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // Store failures are shown in the error line instead of being lost as unhandled rejections.
+  const runStoreAction = async (fn: () => Promise<void>) => {
+    setError(null);
+    try {
+      await fn();
+    } catch (err: unknown) {
+      console.error(err);
+      setError(describeError(t, err));
+    }
+  };
+
+  const handleRename = (project: Project, name: string) => runStoreAction(async () => {
+    setRenamingId(null);
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === project.name) return;
+    const renamed = { ...project, name: trimmed, updatedAt: Date.now() };
+    await saveProject(renamed);
+    if (project.id === currentProjectId) onCurrentChanged(renamed);
+    refresh();
+  });
+
+  const handleDuplicate = (project: Project) => runStoreAction(async () => {
+    await duplicateProject(project, `${project.name} (${t('copySuffix')})`);
+    refresh();
+  });
+
+  const handleDelete = (project: Project) => runStoreAction(async () => {
+    if (!window.confirm(t('confirmDeleteProject', { name: project.name }))) return;
+    await deleteProject(project.id);
+    if (project.id === currentProjectId) onCurrentChanged(null);
+    refresh();
+  });
+
+  const handleExport = () => runStoreAction(async () => {
+    saveAs(await exportLibrary(), 'biblioteca_carrosseis.json');
+  });
+
+  const handleImport = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    runStoreAction(async () => {
+      await importLibrary(await file.text());
+      refresh();
+    });
+  };
+
+  const visible = projects?.filter(p => matchesSearch(p, query)) ?? [];
+
+  return (
+    <div className="p-6 mt-6 bg-gray-800 rounded-lg shadow-2xl">
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <h2 className="flex-1 text-2xl font-bold">{t('library')}</h2>
+        <button onClick={handleExport} className="flex items-center px-3 py-1.5 text-xs font-semibold text-gray-200 transition bg-gray-700 rounded-md hover:bg-gray-600">
+          <DownloadIcon className="w-4 h-4 mr-2" /> {t('exportLibrary')}
+        </button>
+        <button onClick={() => importInput.current?.click()} className="flex items-center px-3 py-1.5 text-xs font-semibold text-gray-200 transition bg-gray-700 rounded-md hover:bg-gray-600">
+          <UploadIcon className="w-4 h-4 mr-2" /> {t('importLibrary')}
+        </button>
+        <input ref={importInput} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+      </div>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={t('searchProjects')}
+        className="w-full p-3 mb-4 bg-gray-700 border border-gray-600 rounded-lg focus:ring-indigo-500 focus:border-indigo-500"
+      />
+      {error && <p className="mb-4 text-sm text-red-400">{error}</p>}
+      {projects === null ? (
+        <div className="flex justify-center p-8"><LoaderIcon /></div>
+      ) : visible.length === 0 ? (
+        <p className="p-8 text-center text-gray-400">{t('noProjects')}</p>
+      ) : (
+        <ul className="space-y-2">
+          {visible.map(project => (
+            <li key={project.id} className={`flex items-center gap-3 p-3 rounded-md bg-gray-900 border ${project.id === currentProjectId ? 'border-indigo-500' : 'border-transparent'}`}>
+              <div className="flex-1 min-w-0">
+                {renamingId === project.id ? (
+                  <input
+                    autoFocus
+                    defaultValue={project.name}
+                    onBlur={(e) => handleRename(project, e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="w-full p-1 text-sm bg-gray-700 border border-gray-600 rounded-md"
+                  />
+                ) : (
+                  <button onClick={() => onOpen(project)} className="block w-full text-left truncate font-semibold text-indigo-300 hover:underline">{project.name}</button>
+                )}
+                <p className="text-xs text-gray-500">
+                  {new Date(project.updatedAt).toLocaleString(locale)} · {project.response.carrosseis.length} {t('carouselsLabel')} · {project.input.mode.toUpperCase()}
+                </p>
+              </div>
+              <button title={t('renameProject')} onClick={() => setRenamingId(project.id)} className={iconButtonClass}><EditIcon className="w-4 h-4" /></button>
+              <button title={t('duplicateProject')} onClick={() => handleDuplicate(project)} className={iconButtonClass}><CopyIcon className="w-4 h-4" /></button>
+              <button title={t('deleteProject')} onClick={() => handleDelete(project)} className={iconButtonClass}><TrashIcon className="w-4 h-4" /></button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+import React, { FC, useState, useRef, DragEvent, KeyboardEvent } from 'react';
+import type { Slide, SlideFormat, SlideLayout } from '../types';
+import type { Translate } from '../locales';
+import { LAYOUT_MARGIN_RANGE } from '../constants';
+import { updateSlide, moveSlide, duplicateSlide, insertSlide, deleteSlide } from '../services/slideEditing';
+import { getSlideLayout } from '../services/slideRenderer';
+import { toggleEmphasis, type TextStyle } from '../services/emphasisMarkup';
+import { GripIcon, CopyIcon, PlusIcon, TrashIcon } from './Icons';
+
+const SLIDE_TYPES: Slide['tipo'][] = ['capa', 'conteudo', 'cta'];
+const ALIGNMENTS: SlideLayout['alinhamento'][] = ['esquerda', 'centro', 'direita'];
+const VERTICAL_POSITIONS: SlideLayout['posicao_vertical'][] = ['topo', 'centro', 'base'];
+
+interface SlideEditorProps {
+  t: Translate;
+  slides: Slide[];
+  // Supplies the margin for slides that have no layout yet.
+  format: SlideFormat;
+  currentIndex: number;
+  onChange: (slides: Slide[]) => void;
+  onSelect: (index: number) => void;
+}
+
+const fieldClass = "w-full p-2 text-sm bg-gray-700 border border-gray-600 rounded-md focus:ring-indigo-500 focus:border-indigo-500";
+const iconButtonClass = "p-1.5 text-gray-400 rounded hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent";
+
+export const SlideEditor: FC<SlideEditorProps> = ({ t, slides, format, currentIndex, onChange, onSelect }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  // Rows only become draggable from the grip, so text in the fields stays selectable.
+  const [armedIndex, setArmedIndex] = useState<number | null>(null);
+
+  const handleDragStart = (e: DragEvent<HTMLLIElement>, index: number) => {
+    setDragIndex(index);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLLIElement>, index: number) => {
+    if (dragIndex === null) return;
+    e.preventDefault();
+    setDropIndex(index);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLLIElement>, index: number) => {
+    e.preventDefault();
+    if (dragIndex !== null) {
+      onChange(moveSlide(slides, dragIndex, index));
+      onSelect(index);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+    setArmedIndex(null);
+  };
+
+  const updateLayout = (index: number, patch: Partial<SlideLayout>) =>
+    onChange(updateSlide(slides, index, { layout: { ...getSlideLayout(slides[index], format), ...patch } }));
+
+  const handleDelete = (index: number) => {
+    onChange(deleteSlide(slides, index));
+    onSelect(Math.min(currentIndex, slides.length - 2));
+  };
+
+  return (
+    <ol className="mt-4 space-y-3">
+      {slides.map((slide, index) => (
+        <li
+          key={index}
+          draggable={armedIndex === index}
+          onDragStart={(e) => handleDragStart(e, index)}
+          onDragOver={(e) => handleDragOver(e, index)}
+          onDrop={(e) => handleDrop(e, index)}
+          onDragEnd={() => { setDragIndex(null); setDropIndex(null); setArmedIndex(null); }}
+          onClick={() => onSelect(index)}
+          className={`p-3 bg-gray-900 rounded-md border transition ${index === currentIndex ? 'border-indigo-500' : 'border-transparent'} ${dropIndex === index && dragIndex !== index ? 'ring-2 ring-indigo-400' : ''} ${dragIndex === index ? 'opacity-50' : ''}`}
+        >
+          <div className="flex items-center gap-2 mb-2">
+            <span
+              onMouseDown={() => setArmedIndex(index)}
+              onMouseUp={() => setArmedIndex(null)}
+              className="cursor-grab text-gray-500"
+              title={t('dragToReorder')}
+            >
+              <GripIcon className="w-4 h-4" />
+            </span>
+            <span className="text-sm font-bold text-indigo-400">{slide.ordem}</span>
+            <select
+              value={slide.tipo}
+              onChange={(e) => onChange(updateSlide(slides, index, { tipo: e.target.value as Slide['tipo'] }))}
+              className="p-1 text-xs bg-gray-700 border border-gray-600 rounded-md"
+            >
+              {SLIDE_TYPES.map(tipo => <option key={tipo} value={tipo}>{t(`slideType_${tipo}`)}</option>)}
+            </select>
+            <div className="flex ml-auto">
+              <button type="button" title={t('duplicateSlide')} onClick={() => onChange(duplicateSlide(slides, index))} className={iconButtonClass}><CopyIcon className="w-4 h-4" /></button>
+              <button type="button" title={t('insertSlide')} onClick={() => onChange(insertSlide(slides, index + 1))} className={iconButtonClass}><PlusIcon className="w-4 h-4" /></button>
+              <button type="button" title={t('deleteSlide')} onClick={() => handleDelete(index)} disabled={slides.length <= 1} className={iconButtonClass}><TrashIcon className="w-4 h-4" /></button>
+            </div>
+          </div>
+          <PhraseField t={t} value={slide.frase} onChange={(frase) => onChange(updateSlide(slides, index, { frase }))} />
+          <label className="block mt-2 mb-1 text-xs text-gray-400">{t('layoutLabel')}</label>
+          <textarea
+            value={slide.instrucoes_layout}
+            onChange={(e) => onChange(updateSlide(slides, index, { instrucoes_layout: e.target.value }))}
+            rows={2}
+            className={`${fieldClass} text-xs`}
+          />
+          <LayoutFields t={t} layout={getSlideLayout(slide, format)} onChange={(patch) => updateLayout(index, patch)} />
+          <label className="block mt-2 mb-1 text-xs text-gray-400">{t('imagePromptLabel')}</label>
+          {/* Committed on blur: every new prompt triggers an image generation. */}
+          <textarea
+            key={`${index}:${slide.prompt_imagem}`}
+            defaultValue={slide.prompt_imagem}
+            onBlur={(e) => e.target.value !== slide.prompt_imagem && onChange(updateSlide(slides, index, { prompt_imagem: e.target.value }))}
+            rows={2}
+            className={`${fieldClass} text-xs`}
+          />
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+const EMPHASIS_BUTTONS: { style: keyof TextStyle; label: string; className: string; shortcut?: string }[] = [
+  { style: 'bold', label: 'B', className: 'font-black', shortcut: 'b' },
+  { style: 'accent', label: 'A', className: 'text-indigo-300', shortcut: 'e' },
+  { style: 'underline', label: 'U', className: 'underline', shortcut: 'u' },
+];
+
+// Phrase textarea with buttons (and Ctrl/Cmd shortcuts) that wrap the selection in emphasis markup.
+const PhraseField: FC<{ t: Translate; value: string; onChange: (value: string) => void }> = ({ t, value, onChange }) => {
+  const textarea = useRef<HTMLTextAreaElement>(null);
+
+  const applyStyle = (style: keyof TextStyle) => {
+    const el = textarea.current;
+    if (!el) return;
+    const next = toggleEmphasis(value, el.selectionStart, el.selectionEnd, style);
+    onChange(next.value);
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(next.start, next.end);
+    });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const button = EMPHASIS_BUTTONS.find(b => b.shortcut === e.key.toLowerCase());
+    if (button) {
+      e.preventDefault();
+      applyStyle(button.style);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex gap-1 mb-1">
+        {EMPHASIS_BUTTONS.map(({ style, label, className }) => (
+          <button
+            key={style}
+            type="button"
+            title={t(`emphasis_${style}`)}
+            // Keep the textarea's selection when clicking.
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => applyStyle(style)}
+            className={`w-7 h-7 text-xs rounded bg-gray-700 hover:bg-gray-600 ${className}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <textarea ref={textarea} value={value} onChange={(e) => onChange(e.target.value)} onKeyDown={handleKeyDown} rows={2} className={fieldClass} />
+    </div>
+  );
+};
+
+const LayoutFields: FC<{ t: Translate; layout: SlideLayout; onChange: (patch: Partial<SlideLayout>) => void }> = ({ t, layout, onChange }) => (
+  <div className="grid grid-cols-2 gap-2 mt-2 text-xs text-gray-400 md:grid-cols-3">
+    <label>
+      {t('layoutAlignment')}
+      <select value={layout.alinhamento} onChange={(e) => onChange({ alinhamento: e.target.value as SlideLayout['alinhamento'] })} className={`${fieldClass} text-xs`}>
+        {ALIGNMENTS.map(a => <option key={a} value={a}>{t(`align_${a}`)}</option>)}
+      </select>
+    </label>
+    <label>
+      {t('layoutVertical')}
+      <select value={layout.posicao_vertical} onChange={(e) => onChange({ posicao_vertical: e.target.value as SlideLayout['posicao_vertical'] })} className={`${fieldClass} text-xs`}>
+        {VERTICAL_POSITIONS.map(v => <option key={v} value={v}>{t(`vertical_${v}`)}</option>)}
+      </select>
+    </label>
+    <label>
+      {t('layoutTitleWords')}
+      <input type="number" min={0} value={layout.palavras_titulo} onChange={(e) => onChange({ palavras_titulo: Math.max(0, Number(e.target.value) || 0) })} className={`${fieldClass} text-xs`} />
+    </label>
+    <label className="col-span-2 md:col-span-1">
+      {t('layoutEmphasis')}
+      {/* Committed on blur so a half-typed list doesn't flicker through the preview. */}
+      <input
+        key={layout.palavras_destaque.join(',')}
+        defaultValue={layout.palavras_destaque.join(', ')}
+        onBlur={(e) => onChange({ palavras_destaque: e.target.value.split(',').map(w => w.trim()).filter(Boolean) })}
+        className={`${fieldClass} text-xs`}
+      />
+    </label>
+    <label>
+      {t('layoutOverlay')} ({Math.round(layout.opacidade_overlay * 100)}%)
+      <input type="range" min={0} max={1} step={0.05} value={layout.opacidade_overlay} onChange={(e) => onChange({ opacidade_overlay: Number(e.target.value) })} className="w-full accent-indigo-500" />
+    </label>
+    <label>
+      {t('layoutMargin')} ({Math.round(layout.margem * 100)}%)
+      <input type="range" min={LAYOUT_MARGIN_RANGE.min} max={LAYOUT_MARGIN_RANGE.max} step={0.005} value={layout.margem} onChange={(e) => onChange({ margem: Number(e.target.value) })} className="w-full accent-indigo-500" />
+    </label>
+  </div>
+);
@@ -0,0 +1,241 @@
+import type { LocaleCatalog } from './types';
+
+export const en: LocaleCatalog = {
+  code: 'en',
+  name: 'EN-US',
+  messages: {
+    appName: "AI Carousel Generator",
+    appDescription: "Generate infinite carousels for Instagram with one click.",
+    generateWithIA: "Generate with AI",
+    generateWithCSV: "Upload CSV",
+    niche: "Niche",
+    nichePlaceholder: "E.g.: finance, fitness, christian faith",
+    context: "Context/Objective",
+    contextPlaceholder: "E.g.: impactful phrases to motivate",
+    tone: "Tone of Phrases",
+    tonePlaceholder: "E.g.: inspiring, provocative, educational",
+    slidesCount: "Number of Images/Phrases",
+    carouselsCount: "Number of Carousels",
+    backgroundStyle: "Background Style",
+    colorPalette: "Color Palette",
+    typography: "Typography Style",
+    phrasesLanguage: "Language of Phrases",
+    cta: "CTA on Last Slide?",
+    yes: "Yes",
+    no: "No",
+    ctaType: "CTA Type",
+    generate: "Generate Content",
+    generating: "Generating...",
+    uploadCsvInstruction: "Use a CSV with columns: carrossel_id, ordem_slide, frase. Optional: tipo, estilo_fundo, paleta_cores, tipografia, cta_tipo, prompt_imagem, nicho",
+    uploadFile: "Choose File",
+    orDrag: "or drag and drop here",
+    fileSelected: "File selected:",
+    resultsTitle: "Generated Results",
+    noResults: "No results yet. Fill out the form and click generate.",
+    downloadJson: "Download JSON",
+    downloadZip: "Download ZIP",
+    downloadingZip: "Generating ZIP...",
+    footerText: "Select the mode, fill in the options, and click 'Generate' to create your carousels. The images are not generated, only the prompts for you to use in your favorite AI tool.",
+    errorTitle: "An error occurred",
+    errorCheckConsole: "Check the console for more details.",
+    csvPreviewTitle: "CSV Preview",
+    csvSummary: "{valid} valid row(s), {rejected} rejected",
+    csvDetected: "Delimiter: {delimiter} · Encoding: {encoding}",
+    csvMissingColumns: "Required columns missing from the header:",
+    csvLine: "Line",
+    csvStatus: "Status",
+    csvRowOk: "OK",
+    csvError_missingId: "empty carrossel_id",
+    csvError_invalidOrder: "ordem_slide is not a whole number",
+    csvError_missingPhrase: "empty frase",
+    csvError_duplicateOrder: "ordem_slide repeated in this carousel",
+    csvError_unterminatedQuote: "unclosed quotes",
+    csvError_invalidType: "tipo must be capa, conteudo or cta",
+    csvError_invalidStyle: "unknown style in estilo_fundo, paleta_cores, tipografia or cta_tipo",
+    csvOptionalColumns: "Override columns:",
+    format: "Format",
+    format_square: "Square 1080×1080 (Feed)",
+    format_portrait: "Portrait 1080×1350 (Feed)",
+    format_story: "Stories 1080×1920",
+    format_linkedin: "LinkedIn 1200×627",
+    exportFormats: "Export in several formats",
+    downloadFormatsZip: "Download ZIP with selected formats",
+    editSlides: "Edit",
+    doneEditing: "Done",
+    dragToReorder: "Drag to reorder",
+    duplicateSlide: "Duplicate slide",
+    insertSlide: "Insert slide after",
+    deleteSlide: "Delete slide",
+    slideType_capa: "Cover",
+    slideType_conteudo: "Content",
+    slideType_cta: "CTA",
+    layoutLabel: "Layout",
+    imagePromptLabel: "Image prompt",
+    rewriteSlide: "Rewrite slide",
+    phraseAlternatives: "3 alternatives",
+    regenerateCarousel: "Regenerate carousel",
+    pickAlternative: "Pick an alternative for this slide:",
+    dismissAlternatives: "Keep the current phrase",
+    translateCarousel: "Translate",
+    translateTo: "Translate this carousel into:",
+    translateStart: "Translate ({n})",
+    translateReplaces: "Languages already translated are translated again and replaced.",
+    variantOf: "Translation of {id}",
+    provider: "AI Provider",
+    library: "Library",
+    backToEditor: "Back to editor",
+    searchProjects: "Search by name, niche or phrase...",
+    noProjects: "No saved projects.",
+    carouselsLabel: "carousels",
+    renameProject: "Rename",
+    duplicateProject: "Duplicate",
+    deleteProject: "Delete",
+    confirmDeleteProject: "Delete the project \"{name}\"? This cannot be undone.",
+    copySuffix: "copy",
+    exportLibrary: "Export library",
+    importLibrary: "Import library",
+    brandKit: "Brand kit",
+    noBrandKit: "No brand kit",
+    editBrandKit: "Edit kit",
+    newBrandKit: "New brand kit",
+    confirmDeleteBrandKit: "Delete the brand kit \"{name}\"?",
+    brandKitName: "Kit name",
+    brandBackground: "Background",
+    brandText: "Text",
+    brandAccent: "Accent",
+    brandGradient: "Gradient background",
+    brandGradientStop: "Color",
+    brandAddStop: "Add color",
+    brandHandle: "Profile @handle",
+    brandFooter: "Footer text",
+    brandBannedTerms: "Banned terms",
+    brandRequiredTerms: "Required terms",
+    brandTermsHint: "Comma-separated. Phrases are checked against these terms.",
+    brandLogo: "Logo",
+    brandLogoSize: "Logo size",
+    "logoPosition_top-left": "Top left",
+    "logoPosition_top-right": "Top right",
+    "logoPosition_bottom-left": "Bottom left",
+    "logoPosition_bottom-right": "Bottom right",
+    brandPreviewText: "Your phrase here",
+    saveBrandKit: "Save kit",
+    cancel: "Cancel",
+    deleteBrandKit: "Delete kit",
+    paletteFromBrandKit: "Colors come from the selected brand kit",
+    layoutAlignment: "Alignment",
+    align_esquerda: "Left",
+    align_centro: "Center",
+    align_direita: "Right",
+    layoutVertical: "Vertical position",
+    vertical_topo: "Top",
+    vertical_centro: "Middle",
+    vertical_base: "Bottom",
+    layoutTitleWords: "Title words",
+    layoutEmphasis: "Emphasized words",
+    layoutOverlay: "Overlay",
+    layoutMargin: "Margin",
+    emphasis_bold: "Bold (Ctrl+B)",
+    emphasis_accent: "Accent color (Ctrl+E)",
+    emphasis_underline: "Underline (Ctrl+U)",
+    fitStatus_squeezed: "This slide's text was shrunk to fit. Consider shortening the phrase.",
+    fitStatus_overflow: "This slide's text does not fit even at the minimum size. Shorten the phrase.",
+    downloadPdf: "Download PDF",
+    downloadingPdf: "Generating PDF...",
+    searchablePdf: "Searchable PDF",
+    searchablePdfHint: "Embeds the phrase text in the PDF so it can be searched and copied.",
+    pdfFailed: "Could not create the PDF.",
+    exportAll: "Export all",
+    exportingAll: "Exporting {done}/{total} slides",
+    stopExport: "Stop",
+    exportAllFailed: "Could not export the carousels.",
+    hashtagsCount: "Hashtags per carousel",
+    hooksCount: "Cover hooks (A/B)",
+    coverHooks: "Hook:",
+    hookEdited: "The cover was edited and is exported with its current phrase only; pick a hook to go back to the A/B test.",
+    lintSettings: "Content checks",
+    lintIssuesCount: "{n} issue(s)",
+    lintNoIssues: "No issues found",
+    lintCheck_length: "Length",
+    lintCheck_readability: "Readability",
+    lintCheck_duplicates: "Duplicates",
+    lintCheck_terms: "Brand terms",
+    lintCheck_cta: "CTA",
+    lintMaxChars: "Max. characters",
+    lintMaxWords: "Max. words",
+    lintMaxSentenceWords: "Max. words per sentence",
+    lintSimilarity: "Near-duplicate similarity: {n}%",
+    lintResetDefaults: "Reset to defaults",
+    lint_maxChars: "Too long: {count} characters (max. {max}).",
+    lint_maxWords: "Too long: {count} words (max. {max}).",
+    lint_readability: "Hard to read: {count} words in one sentence (max. {max}).",
+    lint_duplicate: "Repeats the phrase of slide {slide} in {carousel}: \"{frase}\".",
+    lint_nearDuplicate: "Nearly the same as slide {slide} in {carousel}: \"{frase}\".",
+    lint_bannedTerm: "Uses the banned term \"{term}\".",
+    lint_requiredTerm: "Does not mention the required term \"{term}\".",
+    lint_ctaMissing: "The carousel should end with a CTA slide.",
+    lint_ctaWeak: "The CTA slide does not ask the reader to do anything.",
+    lint_onHook: "Hook {hook}: {text}",
+    fixWithAi: "Fix with AI",
+    postDetails: "Post",
+    caption: "Caption",
+    hashtags: "Hashtags",
+    firstComment: "First comment",
+    altText: "Alt text for slide {n}",
+    copyCaption: "Copy caption",
+    captionCopied: "Copied!",
+    copyFirstComment: "Copy comment",
+    commentCopied: "Copied!",
+    copyFailed: "Could not copy to the clipboard.",
+    imageStatus_queued: "Queued...",
+    imageStatus_generating: "Generating image...",
+    imageStatus_failed: "Image failed",
+    imageRetrying: "Retrying (attempt {n})...",
+    retryImage: "Retry image",
+    assetLibrary: "Image library",
+    uploadImages: "Upload images",
+    assetLibraryHint: "Drag an image onto a slide or onto a carousel's background area.",
+    noAssets: "No images uploaded yet.",
+    deleteAsset: "Delete image",
+    confirmDeleteAsset: "Delete \"{name}\" from the library? Carousels already using it are not affected.",
+    dropSlideBackground: "Drop a library image to use it as this slide's background",
+    dropCarouselBackground: "Drop an image here to use it as the background of every slide",
+    carouselBackgroundSet: "Carousel background set",
+    removeBackground: "Remove background",
+    cropSlideBackground: "This slide's background crop",
+    cropCarouselBackground: "Carousel background crop",
+    cropZoom: "Zoom",
+    cropX: "Horizontal",
+    cropY: "Vertical",
+    generationProgress: "{carousels} of {total} carousels ready · {slides} slides received",
+    cancelGeneration: "Cancel",
+    background_solid: "Minimalist solid background",
+    background_gradient: "Soft gradient",
+    background_texture: "Light texture background",
+    background_photo: "Photo background with low opacity",
+    background_dark: "\"Dark\" background",
+    palette_light: "Light (pastel tones)",
+    palette_dark: "Dark (sober tones)",
+    palette_vibrant: "Vibrant (strong colors)",
+    palette_neutral: "Neutral (black, white, gray)",
+    typography_sans: "Modern sans-serif",
+    typography_serif: "Elegant serif",
+    typography_script: "Handwritten script",
+    typography_bold: "Uppercase bold",
+    ctaType_follow: "Follow page",
+    ctaType_save: "Save post",
+    ctaType_comment: "Comment",
+    ctaType_bioLink: "Click link in bio",
+    unknownError: "An unknown error occurred.",
+    errorInvalidLibrary: "The file is not a valid library.",
+    errorImageUnreadable: "Could not read the image.",
+    errorNotAnImage: "\"{name}\" is not an image.",
+    errorServerStatus: "The server answered {status}.",
+    errorRateLimited: "Too many requests. Try again in {seconds}s.",
+    errorDailyCap: "Daily usage limit reached.",
+    errorConnectionClosed: "The connection to the server closed before the response.",
+    errorNoImageProvider: "The current provider does not generate images.",
+    zipFailed: "Failed to create ZIP file. See console for details.",
+    csvRequired: "Please upload a .csv file",
+    csvInvalid: "Please upload a CSV file with valid data.",
+  },
+};
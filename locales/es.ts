@@ -0,0 +1,241 @@
+import type { LocaleCatalog } from './types';
+
+export const es: LocaleCatalog = {
+  code: 'es',
+  name: 'ES-ES',
+  messages: {
+    appName: "Generador de Carruseles IA",
+    appDescription: "Genera carruseles infinitos para Instagram con un solo clic.",
+    generateWithIA: "Generar con IA",
+    generateWithCSV: "Subir CSV",
+    niche: "Nicho",
+    nichePlaceholder: "Ej: finanzas, fitness, fe cristiana",
+    context: "Contexto/Objetivo",
+    contextPlaceholder: "Ej: frases de impacto para motivar",
+    tone: "Tono de las Frases",
+    tonePlaceholder: "Ej: inspirador, provocador, educativo",
+    slidesCount: "Cantidad de Imágenes/Frases",
+    carouselsCount: "Cantidad de Carruseles",
+    backgroundStyle: "Estilo de Fondo",
+    colorPalette: "Paleta de Colores",
+    typography: "Estilo de Tipografía",
+    phrasesLanguage: "Idioma de las Frases",
+    cta: "¿CTA en la Última Diapositiva?",
+    yes: "Sí",
+    no: "No",
+    ctaType: "Tipo de CTA",
+    generate: "Generar Contenido",
+    generating: "Generando...",
+    uploadCsvInstruction: "Usa un CSV con las columnas: carrossel_id, ordem_slide, frase. Opcionales: tipo, estilo_fundo, paleta_cores, tipografia, cta_tipo, prompt_imagem, nicho",
+    uploadFile: "Seleccionar Archivo",
+    orDrag: "o arrastra y suelta aquí",
+    fileSelected: "Archivo seleccionado:",
+    resultsTitle: "Resultados Generados",
+    noResults: "Aún no hay resultados. Completa el formulario y haz clic en generar.",
+    downloadJson: "Descargar JSON",
+    downloadZip: "Descargar ZIP",
+    downloadingZip: "Generando ZIP...",
+    footerText: "Selecciona el modo, completa las opciones y haz clic en 'Generar' para crear tus carruseles. Las imágenes no se generan, solo los prompts para que los uses en tu herramienta de IA favorita.",
+    errorTitle: "Ocurrió un error",
+    errorCheckConsole: "Revisa la consola para más detalles.",
+    csvPreviewTitle: "Vista previa del CSV",
+    csvSummary: "{valid} fila(s) válida(s), {rejected} rechazada(s)",
+    csvDetected: "Delimitador: {delimiter} · Codificación: {encoding}",
+    csvMissingColumns: "Faltan columnas obligatorias en el encabezado:",
+    csvLine: "Línea",
+    csvStatus: "Estado",
+    csvRowOk: "OK",
+    csvError_missingId: "carrossel_id vacío",
+    csvError_invalidOrder: "ordem_slide no es un número entero",
+    csvError_missingPhrase: "frase vacía",
+    csvError_duplicateOrder: "ordem_slide repetida en este carrusel",
+    csvError_unterminatedQuote: "comillas sin cerrar",
+    csvError_invalidType: "tipo debe ser capa, conteudo o cta",
+    csvError_invalidStyle: "estilo desconocido en estilo_fundo, paleta_cores, tipografia o cta_tipo",
+    csvOptionalColumns: "Columnas de personalización:",
+    format: "Formato",
+    format_square: "Cuadrado 1080×1080 (Feed)",
+    format_portrait: "Vertical 1080×1350 (Feed)",
+    format_story: "Stories 1080×1920",
+    format_linkedin: "LinkedIn 1200×627",
+    exportFormats: "Exportar en varios formatos",
+    downloadFormatsZip: "Descargar ZIP con los formatos seleccionados",
+    editSlides: "Editar",
+    doneEditing: "Listo",
+    dragToReorder: "Arrastra para reordenar",
+    duplicateSlide: "Duplicar diapositiva",
+    insertSlide: "Insertar diapositiva después",
+    deleteSlide: "Eliminar diapositiva",
+    slideType_capa: "Portada",
+    slideType_conteudo: "Contenido",
+    slideType_cta: "CTA",
+    layoutLabel: "Diseño",
+    imagePromptLabel: "Prompt de imagen",
+    rewriteSlide: "Reescribir diapositiva",
+    phraseAlternatives: "3 alternativas",
+    regenerateCarousel: "Regenerar carrusel",
+    pickAlternative: "Elige una alternativa para esta diapositiva:",
+    dismissAlternatives: "Mantener la frase actual",
+    translateCarousel: "Traducir",
+    translateTo: "Traducir este carrusel a:",
+    translateStart: "Traducir ({n})",
+    translateReplaces: "Los idiomas ya traducidos se traducen de nuevo y se reemplazan.",
+    variantOf: "Traducción de {id}",
+    provider: "Proveedor de IA",
+    library: "Biblioteca",
+    backToEditor: "Volver al editor",
+    searchProjects: "Buscar por nombre, nicho o frase...",
+    noProjects: "No hay proyectos guardados.",
+    carouselsLabel: "carruseles",
+    renameProject: "Renombrar",
+    duplicateProject: "Duplicar",
+    deleteProject: "Eliminar",
+    confirmDeleteProject: "¿Eliminar el proyecto \"{name}\"? Esta acción no se puede deshacer.",
+    copySuffix: "copia",
+    exportLibrary: "Exportar biblioteca",
+    importLibrary: "Importar biblioteca",
+    brandKit: "Kit de marca",
+    noBrandKit: "Sin kit de marca",
+    editBrandKit: "Editar kit",
+    newBrandKit: "Nuevo kit de marca",
+    confirmDeleteBrandKit: "¿Eliminar el kit de marca \"{name}\"?",
+    brandKitName: "Nombre del kit",
+    brandBackground: "Fondo",
+    brandText: "Texto",
+    brandAccent: "Acento",
+    brandGradient: "Fondo degradado",
+    brandGradientStop: "Color",
+    brandAddStop: "Añadir color",
+    brandHandle: "@ del perfil",
+    brandFooter: "Texto del pie",
+    brandBannedTerms: "Términos prohibidos",
+    brandRequiredTerms: "Términos obligatorios",
+    brandTermsHint: "Separados por comas. Las frases se comprueban con estos términos.",
+    brandLogo: "Logo",
+    brandLogoSize: "Tamaño del logo",
+    "logoPosition_top-left": "Superior izquierda",
+    "logoPosition_top-right": "Superior derecha",
+    "logoPosition_bottom-left": "Inferior izquierda",
+    "logoPosition_bottom-right": "Inferior derecha",
+    brandPreviewText: "Tu frase aquí",
+    saveBrandKit: "Guardar kit",
+    cancel: "Cancelar",
+    deleteBrandKit: "Eliminar kit",
+    paletteFromBrandKit: "Los colores vienen del kit de marca seleccionado",
+    layoutAlignment: "Alineación",
+    align_esquerda: "Izquierda",
+    align_centro: "Centro",
+    align_direita: "Derecha",
+    layoutVertical: "Posición vertical",
+    vertical_topo: "Arriba",
+    vertical_centro: "Centro",
+    vertical_base: "Abajo",
+    layoutTitleWords: "Palabras del título",
+    layoutEmphasis: "Palabras destacadas",
+    layoutOverlay: "Oscurecimiento",
+    layoutMargin: "Margen",
+    emphasis_bold: "Negrita (Ctrl+B)",
+    emphasis_accent: "Color de acento (Ctrl+E)",
+    emphasis_underline: "Subrayado (Ctrl+U)",
+    fitStatus_squeezed: "El texto de esta diapositiva se redujo para caber. Considera acortar la frase.",
+    fitStatus_overflow: "El texto de esta diapositiva no cabe ni en el tamaño mínimo. Acorta la frase.",
+    downloadPdf: "Descargar PDF",
+    downloadingPdf: "Generando PDF...",
+    searchablePdf: "PDF con búsqueda",
+    searchablePdfHint: "Incluye el texto de las frases en el PDF para buscar y copiar.",
+    pdfFailed: "No se pudo generar el PDF.",
+    exportAll: "Exportar todo",
+    exportingAll: "Exportando {done}/{total} diapositivas",
+    stopExport: "Detener",
+    exportAllFailed: "No se pudieron exportar los carruseles.",
+    hashtagsCount: "Hashtags por carrusel",
+    hooksCount: "Ganchos de portada (A/B)",
+    coverHooks: "Gancho:",
+    hookEdited: "La portada fue editada y se exporta solo con la frase actual; elige un gancho para volver a la prueba A/B.",
+    lintSettings: "Revisión de contenido",
+    lintIssuesCount: "{n} aviso(s)",
+    lintNoIssues: "No se encontraron problemas",
+    lintCheck_length: "Longitud",
+    lintCheck_readability: "Legibilidad",
+    lintCheck_duplicates: "Repeticiones",
+    lintCheck_terms: "Términos de marca",
+    lintCheck_cta: "CTA",
+    lintMaxChars: "Máx. caracteres",
+    lintMaxWords: "Máx. palabras",
+    lintMaxSentenceWords: "Máx. palabras por frase",
+    lintSimilarity: "Similitud para repetición: {n}%",
+    lintResetDefaults: "Restablecer valores",
+    lint_maxChars: "Texto largo: {count} caracteres (máximo {max}).",
+    lint_maxWords: "Texto largo: {count} palabras (máximo {max}).",
+    lint_readability: "Frase difícil de leer: {count} palabras sin pausa (máximo {max}).",
+    lint_duplicate: "Repite la frase de la diapositiva {slide} de {carousel}: \"{frase}\".",
+    lint_nearDuplicate: "Casi igual a la diapositiva {slide} de {carousel}: \"{frase}\".",
+    lint_bannedTerm: "Usa el término prohibido \"{term}\".",
+    lint_requiredTerm: "No menciona el término obligatorio \"{term}\".",
+    lint_ctaMissing: "El carrusel debería terminar con una diapositiva de CTA.",
+    lint_ctaWeak: "La diapositiva de CTA no pide ninguna acción al lector.",
+    lint_onHook: "Gancho {hook}: {text}",
+    fixWithAi: "Corregir con IA",
+    postDetails: "Publicación",
+    caption: "Descripción",
+    hashtags: "Hashtags",
+    firstComment: "Primer comentario",
+    altText: "Texto alternativo de la diapositiva {n}",
+    copyCaption: "Copiar descripción",
+    captionCopied: "¡Copiada!",
+    copyFirstComment: "Copiar comentario",
+    commentCopied: "¡Copiado!",
+    copyFailed: "No se pudo copiar al portapapeles.",
+    imageStatus_queued: "En cola...",
+    imageStatus_generating: "Generando imagen...",
+    imageStatus_failed: "Fallo en la imagen",
+    imageRetrying: "Reintentando ({n}º intento)...",
+    retryImage: "Reintentar imagen",
+    assetLibrary: "Biblioteca de imágenes",
+    uploadImages: "Subir imágenes",
+    assetLibraryHint: "Arrastra una imagen a un slide o al área de fondo del carrusel.",
+    noAssets: "Aún no se han subido imágenes.",
+    deleteAsset: "Eliminar imagen",
+    confirmDeleteAsset: "¿Eliminar \"{name}\" de la biblioteca? Los carruseles que ya la usan no cambian.",
+    dropSlideBackground: "Suelta una imagen de la biblioteca para usarla como fondo de este slide",
+    dropCarouselBackground: "Suelta una imagen aquí para usarla como fondo de todos los slides",
+    carouselBackgroundSet: "Fondo del carrusel definido",
+    removeBackground: "Quitar fondo",
+    cropSlideBackground: "Encuadre del fondo de este slide",
+    cropCarouselBackground: "Encuadre del fondo del carrusel",
+    cropZoom: "Zoom",
+    cropX: "Horizontal",
+    cropY: "Vertical",
+    generationProgress: "{carousels} de {total} carruseles listos · {slides} slides recibidos",
+    cancelGeneration: "Cancelar",
+    background_solid: "Fondo sólido minimalista",
+    background_gradient: "Degradado suave",
+    background_texture: "Fondo con textura ligera",
+    background_photo: "Fondo de foto con baja opacidad",
+    background_dark: "Fondo \"oscuro\"",
+    palette_light: "Claro (tonos pastel)",
+    palette_dark: "Oscuro (tonos sobrios)",
+    palette_vibrant: "Vibrante (colores fuertes)",
+    palette_neutral: "Neutro (negro, blanco, gris)",
+    typography_sans: "Sans-serif moderna",
+    typography_serif: "Serif elegante",
+    typography_script: "Script manuscrita",
+    typography_bold: "Mayúsculas en negrita",
+    ctaType_follow: "Seguir página",
+    ctaType_save: "Guardar publicación",
+    ctaType_comment: "Comentar",
+    ctaType_bioLink: "Hacer clic en el enlace de la bio",
+    unknownError: "Ocurrió un error desconocido.",
+    errorInvalidLibrary: "El archivo no es una biblioteca válida.",
+    errorImageUnreadable: "No se pudo leer la imagen.",
+    errorNotAnImage: "\"{name}\" no es una imagen.",
+    errorServerStatus: "El servidor respondió {status}.",
+    errorRateLimited: "Demasiadas solicitudes. Inténtalo de nuevo en {seconds}s.",
+    errorDailyCap: "Se alcanzó el límite de uso diario.",
+    errorConnectionClosed: "La conexión con el servidor terminó antes de la respuesta.",
+    errorNoImageProvider: "El proveedor actual no genera imágenes.",
+    zipFailed: "No se pudo generar el archivo ZIP. Consulta la consola para más detalles.",
+    csvRequired: "Por favor, sube un archivo .csv",
+    csvInvalid: "Por favor, sube un archivo CSV con datos válidos.",
+  },
+};
@@ -0,0 +1,65 @@
+import { pt } from './pt';
+import { en } from './en';
+import { es } from './es';
+import type { LocaleCatalog, Translate } from './types';
+
+export type { LocaleCatalog, Translate } from './types';
+
+// UI catalogs, in picker order. A new locale is one more file here; nothing else changes.
+export const LOCALES: Record<string, LocaleCatalog> = { pt, en, es };
+
+export const DEFAULT_LOCALE = 'pt';
+
+// Last stop before showing the raw key.
+const FINAL_FALLBACK = 'en';
+
+const hasCatalog = (code: string | undefined): code is string =>
+  !!code && Object.prototype.hasOwnProperty.call(LOCALES, code);
+
+/** Catalogs to search, in order: the locale, its base language, its declared fallback, then English. */
+export const getFallbackChain = (locale: string): string[] => {
+  const chain: string[] = [];
+  const seen = new Set<string>();
+  const visit = (code: string | undefined) => {
+    if (!code || seen.has(code)) return;
+    seen.add(code);
+    if (hasCatalog(code)) chain.push(code);
+    visit(code.split('-')[0]);
+    visit(hasCatalog(code) ? LOCALES[code].fallback : undefined);
+  };
+  visit(locale);
+  visit(FINAL_FALLBACK);
+  return chain;
+};
+
+/** The closest locale with a catalog, e.g. 'pt-BR' -> 'pt' and 'fr' -> 'en'. */
+export const resolveLocale = (requested: string | undefined): string =>
+  requested ? getFallbackChain(requested)[0] : DEFAULT_LOCALE;
+
+// Replaces {name} placeholders; unknown placeholders are left as they are.
+const interpolate = (message: string, vars: Record<string, string | number>) =>
+  message.replace(/\{(\w+)\}/g, (match, name) => (name in vars ? String(vars[name]) : match));
+
+export const createTranslator = (locale: string): Translate => {
+  const catalogs = getFallbackChain(locale).map(code => LOCALES[code].messages);
+  return (key, vars) => {
+    const message = catalogs.find(messages => key in messages)?.[key] ?? key;
+    return vars ? interpolate(message, vars) : message;
+  };
+};
+
+// Errors meant for the user carry a catalog key and its values, so they are shown in the
+// interface language. The message itself is the default locale's text, for the logs.
+type MessageVars = Record<string, string | number>;
+
+export const localizedError = (key: string, vars?: MessageVars) =>
+  Object.assign(new Error(createTranslator(DEFAULT_LOCALE)(key, vars)), { messageKey: key, messageVars: vars });
+
+/** The text to show for a caught error: its catalog key when it has one, else its message. */
+export const describeError = (t: Translate, error: unknown, fallbackKey = 'unknownError'): string => {
+  if (typeof error === 'object' && error !== null && 'messageKey' in error && typeof error.messageKey === 'string') {
+    const vars = 'messageVars' in error ? (error.messageVars as MessageVars | undefined) : undefined;
+    return t(error.messageKey, vars);
+  }
+  return (error instanceof Error && error.message) || t(fallbackKey);
+};
@@ -0,0 +1,241 @@
+import type { LocaleCatalog } from './types';
+
+export const pt: LocaleCatalog = {
+  code: 'pt',
+  name: 'PT-BR',
+  messages: {
+    appName: "Gerador de Carrosséis IA",
+    appDescription: "Gere carrosséis infinitos para o Instagram com um clique.",
+    generateWithIA: "Gerar com IA",
+    generateWithCSV: "Upload CSV",
+    niche: "Nicho",
+    nichePlaceholder: "Ex: finanças, fitness, fé cristã",
+    context: "Contexto/Objetivo",
+    contextPlaceholder: "Ex: frases de impacto para motivar",
+    tone: "Tom das Frases",
+    tonePlaceholder: "Ex: inspirador, provocativo, educativo",
+    slidesCount: "Quantidade de Imagens/Frases",
+    carouselsCount: "Quantidade de Carrosséis",
+    backgroundStyle: "Estilo de Fundo",
+    colorPalette: "Paleta de Cores",
+    typography: "Estilo de Tipografia",
+    phrasesLanguage: "Idioma das Frases",
+    cta: "CTA no Último Slide?",
+    yes: "Sim",
+    no: "Não",
+    ctaType: "Tipo de CTA",
+    generate: "Gerar Conteúdo",
+    generating: "Gerando...",
+    uploadCsvInstruction: "Use um CSV com as colunas: carrossel_id, ordem_slide, frase. Opcionais: tipo, estilo_fundo, paleta_cores, tipografia, cta_tipo, prompt_imagem, nicho",
+    uploadFile: "Escolher Arquivo",
+    orDrag: "ou arraste e solte aqui",
+    fileSelected: "Arquivo selecionado:",
+    resultsTitle: "Resultados Gerados",
+    noResults: "Ainda não há resultados. Preencha o formulário e clique em gerar.",
+    downloadJson: "Baixar JSON",
+    downloadZip: "Baixar ZIP",
+    downloadingZip: "Gerando ZIP...",
+    footerText: "Selecione o modo, preencha as opções e clique em 'Gerar' para criar seus carrosséis. As imagens não são geradas, apenas os prompts para você usar em sua ferramenta de IA favorita.",
+    errorTitle: "Ocorreu um erro",
+    errorCheckConsole: "Verifique o console para mais detalhes.",
+    csvPreviewTitle: "Pré-visualização do CSV",
+    csvSummary: "{valid} linha(s) válida(s), {rejected} rejeitada(s)",
+    csvDetected: "Delimitador: {delimiter} · Codificação: {encoding}",
+    csvMissingColumns: "Colunas obrigatórias ausentes no cabeçalho:",
+    csvLine: "Linha",
+    csvStatus: "Status",
+    csvRowOk: "OK",
+    csvError_missingId: "carrossel_id vazio",
+    csvError_invalidOrder: "ordem_slide não é um número inteiro",
+    csvError_missingPhrase: "frase vazia",
+    csvError_duplicateOrder: "ordem_slide repetida neste carrossel",
+    csvError_unterminatedQuote: "aspas não fechadas",
+    csvError_invalidType: "tipo deve ser capa, conteudo ou cta",
+    csvError_invalidStyle: "estilo desconhecido em estilo_fundo, paleta_cores, tipografia ou cta_tipo",
+    csvOptionalColumns: "Colunas de personalização:",
+    format: "Formato",
+    format_square: "Quadrado 1080×1080 (Feed)",
+    format_portrait: "Retrato 1080×1350 (Feed)",
+    format_story: "Stories 1080×1920",
+    format_linkedin: "LinkedIn 1200×627",
+    exportFormats: "Exportar em vários formatos",
+    downloadFormatsZip: "Baixar ZIP com formatos selecionados",
+    editSlides: "Editar",
+    doneEditing: "Concluir",
+    dragToReorder: "Arraste para reordenar",
+    duplicateSlide: "Duplicar slide",
+    insertSlide: "Inserir slide depois",
+    deleteSlide: "Excluir slide",
+    slideType_capa: "Capa",
+    slideType_conteudo: "Conteúdo",
+    slideType_cta: "CTA",
+    layoutLabel: "Layout",
+    imagePromptLabel: "Prompt da imagem",
+    rewriteSlide: "Reescrever slide",
+    phraseAlternatives: "3 alternativas",
+    regenerateCarousel: "Regenerar carrossel",
+    pickAlternative: "Escolha uma alternativa para este slide:",
+    dismissAlternatives: "Manter a frase atual",
+    translateCarousel: "Traduzir",
+    translateTo: "Traduzir este carrossel para:",
+    translateStart: "Traduzir ({n})",
+    translateReplaces: "Idiomas já traduzidos são traduzidos de novo e substituídos.",
+    variantOf: "Tradução de {id}",
+    provider: "Provedor de IA",
+    library: "Biblioteca",
+    backToEditor: "Voltar ao editor",
+    searchProjects: "Buscar por nome, nicho ou frase...",
+    noProjects: "Nenhum projeto salvo.",
+    carouselsLabel: "carrosséis",
+    renameProject: "Renomear",
+    duplicateProject: "Duplicar",
+    deleteProject: "Excluir",
+    confirmDeleteProject: "Excluir o projeto \"{name}\"? Esta ação não pode ser desfeita.",
+    copySuffix: "cópia",
+    exportLibrary: "Exportar biblioteca",
+    importLibrary: "Importar biblioteca",
+    brandKit: "Kit de marca",
+    noBrandKit: "Sem kit de marca",
+    editBrandKit: "Editar kit",
+    newBrandKit: "Novo kit de marca",
+    confirmDeleteBrandKit: "Excluir o kit de marca \"{name}\"?",
+    brandKitName: "Nome do kit",
+    brandBackground: "Fundo",
+    brandText: "Texto",
+    brandAccent: "Destaque",
+    brandGradient: "Fundo em degradê",
+    brandGradientStop: "Cor",
+    brandAddStop: "Adicionar cor",
+    brandHandle: "@ do perfil",
+    brandFooter: "Texto do rodapé",
+    brandBannedTerms: "Termos proibidos",
+    brandRequiredTerms: "Termos obrigatórios",
+    brandTermsHint: "Separados por vírgula. As frases são verificadas com esses termos.",
+    brandLogo: "Logo",
+    brandLogoSize: "Tamanho do logo",
+    "logoPosition_top-left": "Superior esquerdo",
+    "logoPosition_top-right": "Superior direito",
+    "logoPosition_bottom-left": "Inferior esquerdo",
+    "logoPosition_bottom-right": "Inferior direito",
+    brandPreviewText: "Sua frase aqui",
+    saveBrandKit: "Salvar kit",
+    cancel: "Cancelar",
+    deleteBrandKit: "Excluir kit",
+    paletteFromBrandKit: "As cores vêm do kit de marca selecionado",
+    layoutAlignment: "Alinhamento",
+    align_esquerda: "Esquerda",
+    align_centro: "Centro",
+    align_direita: "Direita",
+    layoutVertical: "Posição vertical",
+    vertical_topo: "Topo",
+    vertical_centro: "Centro",
+    vertical_base: "Base",
+    layoutTitleWords: "Palavras do título",
+    layoutEmphasis: "Palavras em destaque",
+    layoutOverlay: "Escurecimento",
+    layoutMargin: "Margem",
+    emphasis_bold: "Negrito (Ctrl+B)",
+    emphasis_accent: "Cor de destaque (Ctrl+E)",
+    emphasis_underline: "Sublinhado (Ctrl+U)",
+    fitStatus_squeezed: "O texto deste slide foi reduzido para caber. Considere encurtar a frase.",
+    fitStatus_overflow: "O texto deste slide não cabe nem no tamanho mínimo. Encurte a frase.",
+    downloadPdf: "Baixar PDF",
+    downloadingPdf: "Gerando PDF...",
+    searchablePdf: "PDF pesquisável",
+    searchablePdfHint: "Inclui o texto das frases no PDF, para busca e cópia.",
+    pdfFailed: "Não foi possível gerar o PDF.",
+    exportAll: "Exportar tudo",
+    exportingAll: "Exportando {done}/{total} slides",
+    stopExport: "Parar",
+    exportAllFailed: "Não foi possível exportar os carrosséis.",
+    hashtagsCount: "Hashtags por carrossel",
+    hooksCount: "Ganchos da capa (A/B)",
+    coverHooks: "Gancho:",
+    hookEdited: "A capa foi editada e é exportada só com a frase atual; escolha um gancho para voltar ao teste A/B.",
+    lintSettings: "Verificação de conteúdo",
+    lintIssuesCount: "{n} aviso(s)",
+    lintNoIssues: "Nenhum problema encontrado",
+    lintCheck_length: "Tamanho",
+    lintCheck_readability: "Legibilidade",
+    lintCheck_duplicates: "Repetições",
+    lintCheck_terms: "Termos da marca",
+    lintCheck_cta: "CTA",
+    lintMaxChars: "Máx. caracteres",
+    lintMaxWords: "Máx. palavras",
+    lintMaxSentenceWords: "Máx. palavras por frase",
+    lintSimilarity: "Semelhança para repetição: {n}%",
+    lintResetDefaults: "Restaurar padrões",
+    lint_maxChars: "Texto longo: {count} caracteres (máximo {max}).",
+    lint_maxWords: "Texto longo: {count} palavras (máximo {max}).",
+    lint_readability: "Frase difícil de ler: {count} palavras sem pausa (máximo {max}).",
+    lint_duplicate: "Repete a frase do slide {slide} de {carousel}: \"{frase}\".",
+    lint_nearDuplicate: "Quase igual à frase do slide {slide} de {carousel}: \"{frase}\".",
+    lint_bannedTerm: "Usa o termo proibido \"{term}\".",
+    lint_requiredTerm: "Não menciona o termo obrigatório \"{term}\".",
+    lint_ctaMissing: "O carrossel deveria terminar com um slide de CTA.",
+    lint_ctaWeak: "O slide de CTA não pede nenhuma ação ao leitor.",
+    lint_onHook: "Gancho {hook}: {text}",
+    fixWithAi: "Corrigir com IA",
+    postDetails: "Publicação",
+    caption: "Legenda",
+    hashtags: "Hashtags",
+    firstComment: "Primeiro comentário",
+    altText: "Texto alternativo do slide {n}",
+    copyCaption: "Copiar legenda",
+    captionCopied: "Copiada!",
+    copyFirstComment: "Copiar comentário",
+    commentCopied: "Copiado!",
+    copyFailed: "Não foi possível copiar para a área de transferência.",
+    imageStatus_queued: "Na fila...",
+    imageStatus_generating: "Gerando imagem...",
+    imageStatus_failed: "Falha na imagem",
+    imageRetrying: "Nova tentativa ({n}ª)...",
+    retryImage: "Tentar imagem de novo",
+    assetLibrary: "Biblioteca de imagens",
+    uploadImages: "Enviar imagens",
+    assetLibraryHint: "Arraste uma imagem para um slide ou para a área de fundo do carrossel.",
+    noAssets: "Nenhuma imagem enviada ainda.",
+    deleteAsset: "Excluir imagem",
+    confirmDeleteAsset: "Excluir \"{name}\" da biblioteca? Os carrosséis que já a usam não mudam.",
+    dropSlideBackground: "Solte uma imagem da biblioteca para usar como fundo deste slide",
+    dropCarouselBackground: "Solte uma imagem aqui para usar como fundo de todos os slides",
+    carouselBackgroundSet: "Fundo do carrossel definido",
+    removeBackground: "Remover fundo",
+    cropSlideBackground: "Enquadramento do fundo deste slide",
+    cropCarouselBackground: "Enquadramento do fundo do carrossel",
+    cropZoom: "Zoom",
+    cropX: "Horizontal",
+    cropY: "Vertical",
+    generationProgress: "{carousels} de {total} carrosséis prontos · {slides} slides recebidos",
+    cancelGeneration: "Cancelar",
+    background_solid: "Fundo sólido minimalista",
+    background_gradient: "Degradê suave",
+    background_texture: "Fundo com textura leve",
+    background_photo: "Fundo com foto em baixa opacidade",
+    background_dark: "Fundo \"dark\"",
+    palette_light: "Claro (tons pastéis)",
+    palette_dark: "Escuro (tons sóbrios)",
+    palette_vibrant: "Vibrante (cores fortes)",
+    palette_neutral: "Neutro (preto, branco, cinza)",
+    typography_sans: "Sans-serif moderna",
+    typography_serif: "Serif elegante",
+    typography_script: "Script manuscrita",
+    typography_bold: "Caixa alta bold",
+    ctaType_follow: "Seguir página",
+    ctaType_save: "Salvar post",
+    ctaType_comment: "Comentar",
+    ctaType_bioLink: "Clicar no link da bio",
+    unknownError: "Ocorreu um erro desconhecido.",
+    errorInvalidLibrary: "O arquivo não é uma biblioteca válida.",
+    errorImageUnreadable: "Não foi possível ler a imagem.",
+    errorNotAnImage: "\"{name}\" não é uma imagem.",
+    errorServerStatus: "O servidor respondeu {status}.",
+    errorRateLimited: "Muitas requisições. Tente de novo em {seconds}s.",
+    errorDailyCap: "Limite de uso diário atingido.",
+    errorConnectionClosed: "A conexão com o servidor terminou antes da resposta.",
+    errorNoImageProvider: "O provedor atual não gera imagens.",
+    zipFailed: "Falha ao gerar o arquivo ZIP. Veja o console para detalhes.",
+    csvRequired: "Por favor, envie um arquivo .csv",
+    csvInvalid: "Por favor, envie um arquivo CSV com dados válidos.",
+  },
+};
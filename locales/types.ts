@@ -0,0 +1,11 @@
+export interface LocaleCatalog {
+  // BCP 47 code: a language ('pt') or a regional variant of one ('pt-PT').
+  code: string;
+  // Shown in the header's language picker.
+  name: string;
+  // Where missing keys are looked up before the default chain, e.g. 'pt-PT' -> 'pt-BR'.
+  fallback?: string;
+  messages: Record<string, string>;
+}
+
+export type Translate = (key: string, vars?: Record<string, string | number>) => string;
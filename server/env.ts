@@ -0,0 +1,10 @@
+// Imported first by the server, so provider modules see .env.local when they load.
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local: configuration comes from the environment alone.
+}
+
+// Same variable the web app's build used to inline. Assigning undefined to process.env
+// would store the string "undefined", which reads as a key.
+if (!process.env.API_KEY && process.env.GEMINI_API_KEY) process.env.API_KEY = process.env.GEMINI_API_KEY;
@@ -0,0 +1,365 @@
+import './env';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { BrandKit, Carousel, CsvRow, CSVGenerationParams, IAGenerationParams, Language, SlideFormatId } from '../types';
+import { SLIDE_FORMATS, PHRASE_LANGUAGES, isPhraseLanguage, STYLE_OPTIONS, HOOKS_RANGE, HASHTAGS_RANGE, SLIDES_RANGE, CAROUSELS_RANGE, type StyleGroup, type StyleOptionId } from '../constants';
+import {
+  generateCarouselsFromIA,
+  generateCarouselsFromCSV,
+  rewriteSlide,
+  regenerateCarousel,
+  generatePhraseAlternatives,
+  translateCarousel,
+  generateImage,
+  type GenerationOptions,
+} from '../services/geminiService';
+import { PROVIDERS, getActiveProviderId, getDefaultProviderId, isProviderConfigured, isProviderId, runWithProvider, setActiveProviderId, type ProviderId } from '../services/providers';
+import { isObject } from '../services/responseValidator';
+import { createRateLimiter, createUsageMeter } from './limits';
+import { LINT_RULES, type LintIssue } from '../services/contentLint';
+
+// Backend for the web app: holds the provider keys and runs the geminiService
+// functions on their behalf, so no key ever reaches the browser. Each route mirrors one
+// function; carousel generation streams its progress as newline-delimited JSON.
+
+const envNumber = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const PORT = envNumber('PORT', 8787);
+const HOST = process.env.HOST || '127.0.0.1';
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+// Any browser origin allowed to call the API directly; with the Vite proxy none is needed.
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '';
+
+// Mock upstream: the offline fixture provider, for tests and development without a key.
+const isMock = process.argv.includes('--mock') || process.env.MOCK_UPSTREAM === '1';
+setActiveProviderId(isMock ? 'fixture' : getDefaultProviderId());
+if (!isProviderConfigured(getActiveProviderId())) {
+  console.error(`O provedor ${getActiveProviderId()} precisa de uma chave de API: defina GEMINI_API_KEY em .env.local, escolha outro AI_PROVIDER ou use --mock.`);
+  process.exit(1);
+}
+
+// Images come in bursts of one per slide, so they have their own budget and never
+// starve the text calls.
+const rateLimiter = createRateLimiter(envNumber('RATE_LIMIT_PER_MINUTE', 30), 60_000);
+const imageRateLimiter = createRateLimiter(envNumber('IMAGE_RATE_LIMIT_PER_MINUTE', 60), 60_000);
+const usage = createUsageMeter(envNumber('USER_DAILY_CAP', 300), envNumber('DAILY_CAP', 5000));
+// Behind a reverse proxy every request comes from the proxy; TRUST_PROXY=1 reads the
+// client address the proxy appends to X-Forwarded-For instead.
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+
+const httpError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+// Only HTTP error statuses are passed on; anything else is a 500.
+const getErrorStatus = (error: unknown) =>
+  isObject(error) && typeof error.status === 'number' && error.status >= 400 && error.status < 600 ? error.status : undefined;
+
+const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// The providers a request may pick: those with a key, or only the fixtures in mock mode.
+const availableProviders = Object.values(PROVIDERS).filter(provider => (isMock ? provider.id === 'fixture' : isProviderConfigured(provider.id)));
+
+// A request without 'provider' uses the server's default.
+const requireProvider = (value: unknown): ProviderId => {
+  if (value === undefined) return getActiveProviderId();
+  if (typeof value !== 'string' || !isProviderId(value) || !availableProviders.some(provider => provider.id === value)) {
+    throw httpError(400, `'provider' deve ser um de: ${availableProviders.map(provider => provider.id).join(', ')}.`);
+  }
+  return value;
+};
+
+// Limits are keyed on the address, which the client cannot choose. The browser's
+// X-Client-Id is only a label for the logs.
+const getUser = (req: IncomingMessage) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const proxied = TRUST_PROXY && typeof forwarded === 'string' ? forwarded.split(',').pop()?.trim() : undefined;
+  return `ip:${proxied || req.socket.remoteAddress}`;
+};
+
+const getClientLabel = (req: IncomingMessage) => {
+  const clientId = req.headers['x-client-id'];
+  return typeof clientId === 'string' && /^[\w-]{8,64}$/.test(clientId) ? clientId : null;
+};
+
+const readJson = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw httpError(413, 'Requisição grande demais.');
+    chunks.push(chunk);
+  }
+  try {
+    const body: unknown = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+    if (!isObject(body)) throw new Error();
+    return body;
+  } catch {
+    throw httpError(400, 'O corpo da requisição deve ser um objeto JSON.');
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const requireObject = (value: unknown, name: string): Record<string, unknown> => {
+  if (!isObject(value)) throw httpError(400, `'${name}' deve ser um objeto.`);
+  return value;
+};
+
+// Enough of a carousel for the prompts: an id and a list of slides.
+const requireCarousel = (value: unknown): Carousel => {
+  const carousel = requireObject(value, 'carousel');
+  if (typeof carousel.id !== 'string' || !Array.isArray(carousel.slides) || !carousel.slides.every(isObject)) {
+    throw httpError(400, "'carousel' deve ter 'id' e uma lista de 'slides'.");
+  }
+  return carousel as unknown as Carousel;
+};
+
+const requireSlideIndex = (carousel: Carousel, value: unknown) => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value >= carousel.slides.length) {
+    throw httpError(400, "'slideIndex' fora do carrossel.");
+  }
+  return value;
+};
+
+const requireInteger = (value: unknown, name: string, range: { min: number; max: number }) => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < range.min || value > range.max) {
+    throw httpError(400, `'${name}' deve ser um número inteiro entre ${range.min} e ${range.max}.`);
+  }
+  return value;
+};
+
+const requireString = (value: unknown, name: string) => {
+  if (typeof value !== 'string') throw httpError(400, `'${name}' deve ser um texto.`);
+  return value;
+};
+
+const requireBoolean = (value: unknown, name: string) => {
+  if (typeof value !== 'boolean') throw httpError(400, `'${name}' deve ser verdadeiro ou falso.`);
+  return value;
+};
+
+const requireLanguage = (value: unknown, name = 'language'): Language => {
+  if (!isPhraseLanguage(value)) throw httpError(400, `'${name}' deve ser um de: ${Object.keys(PHRASE_LANGUAGES).join(', ')}.`);
+  return value;
+};
+
+// Lint issues for the fix prompt; only the rule and its parameters are read.
+const requireLintIssues = (value: unknown): LintIssue[] => {
+  if (value === undefined) return [];
+  const isIssue = (issue: unknown): issue is LintIssue => isObject(issue)
+    && (LINT_RULES as unknown[]).includes(issue.rule)
+    && isObject(issue.params)
+    && Object.values(issue.params).every(param => typeof param === 'string' || typeof param === 'number');
+  if (!Array.isArray(value) || !value.every(isIssue)) throw httpError(400, "'issues' deve ser uma lista de problemas do linter.");
+  return value;
+};
+
+// Style options travel as ids; labels are only resolved for display and prompts.
+const requireStyleId = <G extends StyleGroup>(group: G, value: unknown, name: string): StyleOptionId<G> => {
+  const options: readonly unknown[] = STYLE_OPTIONS[group];
+  if (!options.includes(value)) throw httpError(400, `'${name}' deve ser um de: ${STYLE_OPTIONS[group].join(', ')}.`);
+  return value as StyleOptionId<G>;
+};
+
+const requireFormat = (value: unknown): SlideFormatId => {
+  if (typeof value !== 'string' || !Object.prototype.hasOwnProperty.call(SLIDE_FORMATS, value)) {
+    throw httpError(400, `'params.format' deve ser um de: ${Object.keys(SLIDE_FORMATS).join(', ')}.`);
+  }
+  return value as SlideFormatId;
+};
+
+// The settings both modes share, checked against the same options and ranges as the form.
+const requireCommonParams = (params: Record<string, unknown>) => ({
+  backgroundStyle: requireStyleId('background', params.backgroundStyle, 'params.backgroundStyle'),
+  colorPalette: requireStyleId('palette', params.colorPalette, 'params.colorPalette'),
+  typography: requireStyleId('typography', params.typography, 'params.typography'),
+  cta: requireBoolean(params.cta, 'params.cta'),
+  format: requireFormat(params.format),
+  hashtagsCount: requireInteger(params.hashtagsCount, 'params.hashtagsCount', HASHTAGS_RANGE),
+  ...(params.brandKit === undefined ? {} : { brandKit: requireObject(params.brandKit, 'params.brandKit') as unknown as BrandKit }),
+});
+
+const requireIAParams = (value: unknown): IAGenerationParams => {
+  const params = requireObject(value, 'params');
+  return {
+    ...requireCommonParams(params),
+    niche: requireString(params.niche, 'params.niche'),
+    context: requireString(params.context, 'params.context'),
+    tone: requireString(params.tone, 'params.tone'),
+    slidesCount: requireInteger(params.slidesCount, 'params.slidesCount', SLIDES_RANGE),
+    carouselsCount: requireInteger(params.carouselsCount, 'params.carouselsCount', CAROUSELS_RANGE),
+    ...(params.hooksCount === undefined ? {} : { hooksCount: requireInteger(params.hooksCount, 'params.hooksCount', HOOKS_RANGE) }),
+    phrasesLanguage: requireLanguage(params.phrasesLanguage, 'params.phrasesLanguage'),
+    ctaType: requireStyleId('ctaType', params.ctaType, 'params.ctaType'),
+  };
+};
+
+const requireCSVParams = (value: unknown): CSVGenerationParams => {
+  const params = requireObject(value, 'params');
+  return {
+    ...requireCommonParams(params),
+    language: requireLanguage(params.language, 'params.language'),
+    ...(params.ctaType === undefined ? {} : { ctaType: requireStyleId('ctaType', params.ctaType, 'params.ctaType') }),
+  };
+};
+
+const isCsvRow = (row: unknown): row is CsvRow =>
+  isObject(row) && typeof row.carrossel_id === 'string' && typeof row.ordem_slide === 'number' && typeof row.frase === 'string';
+
+const requireCsvRows = (value: unknown): CsvRow[] => {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(isCsvRow)) {
+    throw httpError(400, "'rows' deve ser uma lista não vazia de linhas com 'carrossel_id', 'ordem_slide' e 'frase'.");
+  }
+  return value;
+};
+
+// Streams progress lines while generating, then one result or error line.
+const streamGeneration = async (req: IncomingMessage, res: ServerResponse, run: (options: GenerationOptions) => Promise<unknown>) => {
+  const controller = new AbortController();
+  // The client went away (the user cancelled): stop asking the model.
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store' });
+  const send = (line: unknown) => res.write(`${JSON.stringify(line)}\n`);
+  try {
+    const response = await run({ signal: controller.signal, onProgress: progress => send({ type: 'progress', ...progress }) });
+    send({ type: 'result', response });
+  } catch (error: unknown) {
+    if (!controller.signal.aborted) send({ type: 'error', message: getErrorMessage(error), status: getErrorStatus(error) });
+  }
+  res.end();
+};
+
+interface RouteContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  body: Record<string, unknown>;
+  // Records usage against the daily caps, once the request is known to be valid;
+  // throws a 403 when the caps do not allow it.
+  charge: (units: number) => void;
+}
+
+type Handler = (context: RouteContext) => Promise<void>;
+
+const ROUTES: Record<string, Handler> = {
+  // Generation is charged per carousel: one request can ask for many.
+  'POST /api/carousels/ia': async ({ req, res, body, charge }) => {
+    const params = requireIAParams(body.params);
+    charge(params.carouselsCount);
+    await streamGeneration(req, res, options => generateCarouselsFromIA(params, options));
+  },
+
+  'POST /api/carousels/csv': async ({ req, res, body, charge }) => {
+    const rows = requireCsvRows(body.rows);
+    const params = requireCSVParams(body.params);
+    charge(new Set(rows.map(row => row.carrossel_id)).size);
+    await streamGeneration(req, res, options => generateCarouselsFromCSV(rows, params, options));
+  },
+
+  'POST /api/slides/rewrite': async ({ res, body, charge }) => {
+    const carousel = requireCarousel(body.carousel);
+    const slideIndex = requireSlideIndex(carousel, body.slideIndex);
+    const language = requireLanguage(body.language);
+    const issues = requireLintIssues(body.issues);
+    charge(1);
+    sendJson(res, 200, { slide: await rewriteSlide(carousel, slideIndex, language, issues) });
+  },
+
+  'POST /api/slides/alternatives': async ({ res, body, charge }) => {
+    const carousel = requireCarousel(body.carousel);
+    const count = typeof body.count === 'number' && Number.isInteger(body.count) ? Math.min(Math.max(body.count, 1), 10) : undefined;
+    const slideIndex = requireSlideIndex(carousel, body.slideIndex);
+    const language = requireLanguage(body.language);
+    charge(1);
+    sendJson(res, 200, { alternatives: await generatePhraseAlternatives(carousel, slideIndex, language, count) });
+  },
+
+  'POST /api/carousels/regenerate': async ({ res, body, charge }) => {
+    const carousel = requireCarousel(body.carousel);
+    const language = requireLanguage(body.language);
+    charge(1);
+    sendJson(res, 200, { carousel: await regenerateCarousel(carousel, language) });
+  },
+
+  'POST /api/carousels/translate': async ({ res, body, charge }) => {
+    const carousel = requireCarousel(body.carousel);
+    const from = requireLanguage(body.from, 'from');
+    const language = requireLanguage(body.language);
+    if (from === language) throw httpError(400, "'language' deve ser diferente de 'from'.");
+    charge(1);
+    sendJson(res, 200, { carousel: await translateCarousel(carousel, from, language) });
+  },
+
+  'POST /api/images': async ({ res, body, charge }) => {
+    if (typeof body.prompt !== 'string' || !body.prompt.trim()) throw httpError(400, "'prompt' é obrigatório.");
+    // Only the app's own formats, looked up by id.
+    const format = SLIDE_FORMATS[requireFormat(body.format)];
+    charge(1);
+    sendJson(res, 200, { url: await generateImage(body.prompt, format) });
+  },
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse, user: string) => {
+  if (ALLOWED_ORIGIN) {
+    res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Client-Id');
+    // The image queue waits as long as a 429 asks.
+    res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  if (req.method === 'GET' && path === '/api/health') {
+    return sendJson(res, 200, { ok: true, provider: getActiveProviderId(), mock: isMock });
+  }
+  if (req.method === 'GET' && path === '/api/usage') {
+    return sendJson(res, 200, usage.status(user));
+  }
+  if (req.method === 'GET' && path === '/api/providers') {
+    const providers = availableProviders.map(({ id, label }) => ({ id, label }));
+    return sendJson(res, 200, { providers, defaultProvider: getActiveProviderId() });
+  }
+
+  const handler = ROUTES[`${req.method} ${path}`];
+  if (!handler) throw httpError(404, 'Rota não encontrada.');
+
+  const limit = (path === '/api/images' ? imageRateLimiter : rateLimiter).take(user);
+  if (!limit.allowed) {
+    const retryAfter = Math.ceil(limit.retryAfterMs / 1000);
+    return sendJson(res, 429, { error: `Muitas requisições. Tente de novo em ${retryAfter}s.` }, { 'Retry-After': String(retryAfter) });
+  }
+  const charge = (units: number) => {
+    if (!usage.record(user, units)) {
+      throw Object.assign(httpError(403, 'Limite de uso diário atingido.'), { usage: usage.status(user) });
+    }
+  };
+  const body = await readJson(req);
+  await runWithProvider(requireProvider(body.provider), () => handler({ req, res, body, charge }));
+};
+
+const server = createServer(async (req, res) => {
+  const started = Date.now();
+  const user = getUser(req);
+  try {
+    await handle(req, res, user);
+  } catch (error: unknown) {
+    const status = getErrorStatus(error) ?? 500;
+    if (status === 500) console.error(error);
+    if (res.headersSent) res.end();
+    else sendJson(res, status, { error: getErrorMessage(error) || 'Erro interno.', ...(isObject(error) && error.usage ? { usage: error.usage } : {}) });
+  } finally {
+    // One JSON line per request; prompts and keys are never logged.
+    console.log(JSON.stringify({ time: new Date(started).toISOString(), user, client: getClientLabel(req), method: req.method, path: req.url, status: res.statusCode, ms: Date.now() - started }));
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Servidor em http://${HOST}:${PORT} (provedor: ${getActiveProviderId()}${isMock ? ', upstream simulado' : ''})`);
+});
@@ -0,0 +1,78 @@
+// In-memory request limits, per user: a sliding-window rate limit against bursts and
+// a daily usage cap against runaway costs. State resets when the server restarts.
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // How long until the next request would be allowed; 0 when allowed.
+  retryAfterMs: number;
+}
+
+export const createRateLimiter = (limit: number, windowMs: number) => {
+  const requests = new Map<string, number[]>();
+
+  return {
+    take: (user: string, now = Date.now()): RateLimitResult => {
+      const recent = (requests.get(user) ?? []).filter(time => now - time < windowMs);
+      if (recent.length >= limit) {
+        requests.set(user, recent);
+        return { allowed: false, retryAfterMs: windowMs - (now - recent[0]) };
+      }
+      recent.push(now);
+      requests.set(user, recent);
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+};
+
+export interface UsageStatus {
+  used: number;
+  cap: number;
+  remaining: number;
+  // Whole-server usage today, against its own cap.
+  totalUsed: number;
+  totalCap: number;
+  // Midnight UTC, when the counters start over.
+  resetsAt: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const today = (now: number) => new Date(now).toISOString().slice(0, 10);
+
+/** Counts usage per user and in total for the current UTC day: one unit per request, one per carousel generated. */
+export const createUsageMeter = (userCap: number, totalCap: number) => {
+  let day = '';
+  let total = 0;
+  const used = new Map<string, number>();
+
+  const rollOver = (now: number) => {
+    if (today(now) === day) return;
+    day = today(now);
+    total = 0;
+    used.clear();
+  };
+
+  const status = (user: string, now = Date.now()): UsageStatus => {
+    rollOver(now);
+    const userUsed = used.get(user) ?? 0;
+    return {
+      used: userUsed,
+      cap: userCap,
+      remaining: Math.max(0, Math.min(userCap - userUsed, totalCap - total)),
+      totalUsed: total,
+      totalCap,
+      resetsAt: new Date(Date.parse(day) + DAY_MS).toISOString(),
+    };
+  };
+
+  return {
+    status,
+    /** Records `units` of usage if the caps allow all of them; returns false otherwise. */
+    record: (user: string, units = 1, now = Date.now()) => {
+      if (status(user, now).remaining < units) return false;
+      used.set(user, (used.get(user) ?? 0) + units);
+      total += units;
+      return true;
+    },
+  };
+};
@@ -0,0 +1,62 @@
+import type { Asset, BackgroundImage } from '../types';
+import { runRequest, createId } from './localDb';
+import { localizedError } from '../locales';
+
+// Uploaded images (photo banks, product shots) kept in the browser for use as slide backgrounds.
+
+const STORE = 'assets';
+
+/** Drag-and-drop payload type for assets dragged out of the library. */
+export const ASSET_DRAG_TYPE = 'application/x-carousel-asset';
+
+/** All assets, newest first. */
+export const listAssets = async (): Promise<Asset[]> => {
+  const assets = await runRequest<Asset[]>(STORE, 'readonly', store => store.getAll());
+  return assets.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getAsset = (id: string): Promise<Asset | undefined> =>
+  runRequest<Asset | undefined>(STORE, 'readonly', store => store.get(id));
+
+export const saveAsset = async (asset: Asset): Promise<void> => {
+  await runRequest(STORE, 'readwrite', store => store.put(asset));
+};
+
+export const deleteAsset = async (id: string): Promise<void> => {
+  await runRequest(STORE, 'readwrite', store => store.delete(id));
+};
+
+const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+const getImageSize = (src: string) => new Promise<{ width: number; height: number }>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+  img.onerror = () => reject(localizedError('errorImageUnreadable'));
+  img.src = src;
+});
+
+/** Reads an uploaded image file and stores it in the library. */
+export const addAssetFromFile = async (file: File): Promise<Asset> => {
+  if (!file.type.startsWith('image/')) {
+    throw localizedError('errorNotAnImage', { name: file.name });
+  }
+  const dataUrl = await readAsDataUrl(file);
+  const asset: Asset = { id: createId(), name: file.name, dataUrl, ...(await getImageSize(dataUrl)), createdAt: Date.now() };
+  await saveAsset(asset);
+  return asset;
+};
+
+/** The asset centered and just covering the slide. */
+export const createBackground = (asset: Asset): BackgroundImage => ({
+  assetId: asset.id,
+  width: asset.width,
+  height: asset.height,
+  x: 0.5,
+  y: 0.5,
+  zoom: 1,
+});
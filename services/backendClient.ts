@@ -0,0 +1,119 @@
+import type { ApiResponse, Carousel, CsvRow, CSVGenerationParams, IAGenerationParams, Language, Slide, SlideFormat } from '../types';
+import { SLIDE_FORMATS } from '../constants';
+import type { GenerationOptions, GenerationProgress } from './geminiService';
+import type { LintIssue } from './contentLint';
+import type { ProviderId } from './providers/types';
+import { localizedError } from '../locales';
+
+export type { GenerationOptions, GenerationProgress };
+
+// The geminiService functions, run by the backend (server/index.ts), which holds the
+// provider keys. Same signatures, so callers do not know where the model runs.
+
+// Empty means the same origin, where the Vite dev server proxies /api to the backend.
+const baseUrl = (process.env.BACKEND_URL || '').replace(/\/+$/, '');
+
+const CLIENT_ID_KEY = 'carousel-generator-client-id';
+
+// Identifies this browser for the backend's per-user rate limits and usage cap.
+const getClientId = () => {
+  let id = localStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+};
+
+export interface ProviderOption {
+  id: ProviderId;
+  label: string;
+}
+
+// The provider every call asks for; undefined leaves the choice to the backend.
+let selectedProvider: ProviderId | undefined;
+
+export const setProvider = (id: ProviderId | undefined) => {
+  selectedProvider = id;
+};
+
+// Errors keep the HTTP status, so the image queue can tell rate limits from failures,
+// and a 429's Retry-After in milliseconds, so it knows how long to wait. Rate limits and
+// the daily cap are shown in the interface language; other errors keep the server's text.
+const request = async (path: string, init: RequestInit = {}) => {
+  const response = await fetch(`${baseUrl}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', 'X-Client-Id': getClientId() },
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    const error = response.status === 429 && retryAfter > 0 ? localizedError('errorRateLimited', { seconds: retryAfter })
+      : response.status === 403 && data?.usage ? localizedError('errorDailyCap')
+      : data?.error ? new Error(data.error)
+      : localizedError('errorServerStatus', { status: response.status });
+    throw Object.assign(error, {
+      status: response.status,
+      ...(retryAfter > 0 ? { retryAfterMs: retryAfter * 1000 } : {}),
+    });
+  }
+  return response;
+};
+
+const post = (path: string, body: Record<string, unknown>, signal?: AbortSignal) =>
+  request(path, { method: 'POST', body: JSON.stringify({ ...body, provider: selectedProvider }), signal });
+
+/** The providers the backend can use, and the one it uses when a call names none. */
+export const listProviders = async (): Promise<{ providers: ProviderOption[]; defaultProvider: ProviderId }> =>
+  (await request('/api/providers')).json();
+
+type StreamLine =
+  | ({ type: 'progress' } & GenerationProgress)
+  | { type: 'result'; response: ApiResponse }
+  | { type: 'error'; message: string; status?: number };
+
+// Reads the newline-delimited JSON of a generation: progress lines, then the result.
+const readGeneration = async (response: Response, { onProgress }: GenerationOptions): Promise<ApiResponse> => {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines.filter(l => l.trim())) {
+      const message: StreamLine = JSON.parse(line);
+      if (message.type === 'progress') {
+        const { type, ...progress } = message;
+        onProgress?.(progress);
+      } else if (message.type === 'result') {
+        return message.response;
+      } else {
+        throw Object.assign(new Error(message.message), { status: message.status });
+      }
+    }
+  }
+  throw localizedError('errorConnectionClosed');
+};
+
+export const generateCarouselsFromIA = async (params: IAGenerationParams, options: GenerationOptions = {}): Promise<ApiResponse> =>
+  readGeneration(await post('/api/carousels/ia', { params }, options.signal), options);
+
+export const generateCarouselsFromCSV = async (csvData: CsvRow[], params: CSVGenerationParams, options: GenerationOptions = {}): Promise<ApiResponse> =>
+  readGeneration(await post('/api/carousels/csv', { rows: csvData, params }, options.signal), options);
+
+export const rewriteSlide = async (carousel: Carousel, slideIndex: number, language: Language, issues: LintIssue[] = []): Promise<Slide> =>
+  (await (await post('/api/slides/rewrite', { carousel, slideIndex, language, issues })).json()).slide;
+
+export const regenerateCarousel = async (carousel: Carousel, language: Language): Promise<Carousel> =>
+  (await (await post('/api/carousels/regenerate', { carousel, language })).json()).carousel;
+
+export const generatePhraseAlternatives = async (carousel: Carousel, slideIndex: number, language: Language, count = 3): Promise<string[]> =>
+  (await (await post('/api/slides/alternatives', { carousel, slideIndex, language, count })).json()).alternatives;
+
+export const translateCarousel = async (carousel: Carousel, from: Language, language: Language): Promise<Carousel> =>
+  (await (await post('/api/carousels/translate', { carousel, from, language })).json()).carousel;
+
+export const generateImage = async (prompt: string, format: SlideFormat = SLIDE_FORMATS.square): Promise<string | null> =>
+  (await (await post('/api/images', { prompt, format: format.id })).json()).url;
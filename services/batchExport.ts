@@ -0,0 +1,156 @@
+import type { ApiResponse, Carousel, Language } from '../types';
+import { SLIDE_FORMATS, DEFAULT_SLIDE_FORMAT } from '../constants';
+import { getBackgroundKey, loadImage, renderSlideToBlob } from './slideRenderer';
+import { exportCsv } from './csvParser';
+import { getCaptionText, getFirstCommentText, getAltTexts } from './postDetails';
+import { getCarouselLanguage, getLanguageSuffix, groupVariants } from './carouselVariants';
+import { getExportSlides } from './coverHooks';
+
+declare const JSZip: any;
+
+// "Export all": every carousel rendered into one ZIP, one folder per carousel, plus a
+// manifest describing the files and a CSV that can be imported again. Translated
+// variants share their original's folder, with the language in each file name.
+
+const MANIFEST_FORMAT = 'carousel-generator-export';
+const MANIFEST_VERSION = 1;
+
+export interface BatchExportProgress {
+  done: number;
+  total: number;
+}
+
+interface BatchExportOptions {
+  // Background images keyed like a project's images (see getBackgroundKey), as data or object URLs.
+  images: Record<string, string>;
+  onProgress?: (progress: BatchExportProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Carousel ids come from the model or the CSV; keep them usable as folder names.
+export const toFolderName = (id: string, used: Set<string>) => {
+  const base = id.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || 'carrossel';
+  let name = base;
+  for (let n = 2; used.has(name); n++) name = `${base}_${n}`;
+  used.add(name);
+  return name;
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/svg+xml': 'svg' };
+
+// The part of a JSZip folder this module writes to.
+interface ZipFolder {
+  file: (name: string, data: Blob | string) => unknown;
+}
+
+type ExportedBackgrounds = Record<string, { file: string; image: HTMLImageElement | null }>;
+
+const exportCarousel = async (
+  carousel: Carousel,
+  language: Language,
+  folder: ZipFolder,
+  folderName: string,
+  // Filled as images are written; variants in the same folder reuse their original's files.
+  backgrounds: ExportedBackgrounds,
+  suffix: string,
+  options: BatchExportOptions,
+  onSlideDone: () => void,
+) => {
+  const format = SLIDE_FORMATS[carousel.formato ?? DEFAULT_SLIDE_FORMAT];
+  const logo = carousel.marca?.logo ? await loadImage(carousel.marca.logo) : null;
+
+  // One background file per distinct image, shared by the slides that use it. Files are
+  // the original images; the slides show them as cropped.
+  for (const key of Array.from(new Set(carousel.slides.map(slide => getBackgroundKey(slide, carousel))))) {
+    const url = options.images[key];
+    if (!url || backgrounds[key]) continue;
+    const blob = await (await fetch(url, { signal: options.signal })).blob();
+    const file = `fundos/fundo_${Object.keys(backgrounds).length + 1}.${IMAGE_EXTENSIONS[blob.type] ?? 'png'}`;
+    folder.file(file, blob);
+    backgrounds[key] = { file, image: await loadImage(url) };
+  }
+
+  const slides = [];
+  for (const slide of carousel.slides) {
+    options.signal?.throwIfAborted();
+    const background = backgrounds[getBackgroundKey(slide, carousel)];
+    // A cover with A/B hooks is rendered once per hook.
+    for (const { slide: exported, suffix: hookSuffix, hook } of getExportSlides(slide)) {
+      const file = `slide_${slide.ordem}${hookSuffix}${suffix}.png`;
+      const blob = await renderSlideToBlob(exported, carousel, background?.image ?? null, format, logo);
+      if (!blob) throw new Error(`Não foi possível renderizar o slide ${slide.ordem} de ${carousel.id}.`);
+      folder.file(file, blob);
+      slides.push({
+        ordem: slide.ordem,
+        tipo: slide.tipo,
+        frase: exported.frase,
+        ...(hook ? { gancho: hook.letter, motivo: hook.motivo } : {}),
+        arquivo: `${folderName}/${file}`,
+        fundo: background ? `${folderName}/${background.file}` : null,
+      });
+    }
+    onSlideDone();
+  }
+  folder.file(`caption${suffix}.txt`, getCaptionText(carousel));
+  const firstComment = getFirstCommentText(carousel);
+  if (firstComment) folder.file(`first_comment${suffix}.txt`, firstComment);
+  folder.file(`alt_text${suffix}.json`, JSON.stringify(getAltTexts(carousel), null, 2));
+
+  return {
+    id: carousel.id,
+    idioma: language,
+    variante_de: carousel.variante_de ?? null,
+    pasta: folderName,
+    nicho: carousel.nicho ?? null,
+    formato: format.id,
+    largura: format.width,
+    altura: format.height,
+    marca: carousel.marca?.name ?? null,
+    legenda: `${folderName}/caption${suffix}.txt`,
+    primeiro_comentario: firstComment ? `${folderName}/first_comment${suffix}.txt` : null,
+    textos_alternativos: `${folderName}/alt_text${suffix}.json`,
+    slides,
+  };
+};
+
+/**
+ * Renders every carousel of the response into one ZIP. Aborting the signal stops
+ * between slides and rejects with the signal's reason; nothing is returned then.
+ */
+export const exportAllCarousels = async (response: ApiResponse, options: BatchExportOptions): Promise<Blob> => {
+  const zip = new JSZip();
+  const total = response.carrosseis.reduce((sum, carousel) => sum + carousel.slides.length, 0);
+  let done = 0;
+  options.onProgress?.({ done, total });
+
+  const usedNames = new Set<string>();
+  const carousels = [];
+  const onSlideDone = () => {
+    done++;
+    options.onProgress?.({ done, total });
+  };
+  for (const { original, variants } of groupVariants(response.carrosseis)) {
+    const folderName = toFolderName(original.id, usedNames);
+    const folder = zip.folder(folderName);
+    const backgrounds: ExportedBackgrounds = {};
+    for (const carousel of [original, ...variants]) {
+      const language = getCarouselLanguage(carousel, response.language);
+      const suffix = variants.length > 0 ? getLanguageSuffix(language) : '';
+      carousels.push(await exportCarousel(carousel, language, folder, folderName, backgrounds, suffix, options, onSlideDone));
+    }
+  }
+
+  const manifest = {
+    format: MANIFEST_FORMAT,
+    version: MANIFEST_VERSION,
+    exportedAt: new Date().toISOString(),
+    mode: response.mode,
+    language: response.language,
+    csv: 'carrosseis.csv',
+    carrosseis: carousels,
+  };
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  zip.file('carrosseis.csv', exportCsv(response.carrosseis));
+  options.signal?.throwIfAborted();
+  return zip.generateAsync({ type: 'blob' });
+};
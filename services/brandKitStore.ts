@@ -0,0 +1,29 @@
+import type { BrandKit } from '../types';
+import { PALETTES, STYLE_OPTIONS } from '../constants';
+import { runRequest, createId } from './localDb';
+
+const STORE = 'brandKits';
+
+export const createBrandKit = (name: string): BrandKit => ({
+  id: createId(),
+  name,
+  colors: { ...PALETTES[STYLE_OPTIONS.palette[0]] },
+  logoPosition: 'bottom-right',
+  logoSize: 0.15,
+  handle: '',
+  footer: '',
+});
+
+/** All saved brand kits, sorted by name. */
+export const listBrandKits = async (): Promise<BrandKit[]> => {
+  const kits = await runRequest<BrandKit[]>(STORE, 'readonly', store => store.getAll());
+  return kits.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveBrandKit = async (kit: BrandKit): Promise<void> => {
+  await runRequest(STORE, 'readwrite', store => store.put(kit));
+};
+
+export const deleteBrandKit = async (id: string): Promise<void> => {
+  await runRequest(STORE, 'readwrite', store => store.delete(id));
+};
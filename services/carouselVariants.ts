@@ -0,0 +1,43 @@
+import type { Carousel, Language } from '../types';
+
+// Translated variants are stored next to their original in the response's list, each
+// with 'variante_de' pointing at the original's id and its own 'idioma'.
+
+export interface VariantGroup {
+  original: Carousel;
+  variants: Carousel[];
+}
+
+/** The language a carousel's phrases are in. */
+export const getCarouselLanguage = (carousel: Carousel, responseLanguage: Language): Language =>
+  carousel.idioma ?? responseLanguage;
+
+export const getVariantId = (original: Carousel, language: Language) => `${original.id}_${language}`;
+
+/** Originals in list order, each with its variants. A variant whose original is gone stands alone. */
+export const groupVariants = (carousels: Carousel[]): VariantGroup[] => {
+  const ids = new Set(carousels.map(carousel => carousel.id));
+  const groups = carousels
+    .filter(carousel => !carousel.variante_de || !ids.has(carousel.variante_de))
+    .map(original => ({ original, variants: [] as Carousel[] }));
+  for (const carousel of carousels) {
+    groups.find(group => carousel.variante_de && group.original.id === carousel.variante_de)?.variants.push(carousel);
+  }
+  return groups;
+};
+
+/**
+ * Puts `variants` right after their original and its existing variants. A variant with
+ * the id of an existing one (the same language translated again) replaces it in place.
+ */
+export const upsertVariants = (carousels: Carousel[], originalId: string, variants: Carousel[]): Carousel[] => {
+  const replaced = carousels.map(carousel => variants.find(variant => variant.id === carousel.id) ?? carousel);
+  const added = variants.filter(variant => !carousels.some(carousel => carousel.id === variant.id));
+  let insertAt = replaced.findIndex(carousel => carousel.id === originalId) + 1;
+  while (insertAt > 0 && insertAt < replaced.length && replaced[insertAt].variante_de === originalId) insertAt++;
+  if (insertAt === 0) insertAt = replaced.length;
+  return [...replaced.slice(0, insertAt), ...added, ...replaced.slice(insertAt)];
+};
+
+/** File name suffix that tells the languages of a group apart, e.g. 'slide_1_en.png'. */
+export const getLanguageSuffix = (language: Language) => `_${language}`;
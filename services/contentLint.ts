@@ -0,0 +1,237 @@
+import type { ApiResponse, Carousel, Language, Slide } from '../types';
+import { createTranslator, type Translate } from '../locales';
+import { getCarouselLanguage } from './carouselVariants';
+import { stripEmphasis } from './emphasisMarkup';
+import { getExportSlides } from './coverHooks';
+
+// Rule-based checks over the phrases the model returns. Issues carry a rule id and
+// parameters; the locale catalogs turn them into text ('lint_<rule>').
+
+export type LintCheck = 'length' | 'readability' | 'duplicates' | 'terms' | 'cta';
+
+export const LINT_CHECKS: LintCheck[] = ['length', 'readability', 'duplicates', 'terms', 'cta'];
+
+export type LintRule =
+  | 'maxChars'
+  | 'maxWords'
+  | 'readability'
+  | 'duplicate'
+  | 'nearDuplicate'
+  | 'bannedTerm'
+  | 'requiredTerm'
+  | 'ctaMissing'
+  | 'ctaWeak';
+
+export const LINT_RULES: LintRule[] = ['maxChars', 'maxWords', 'readability', 'duplicate', 'nearDuplicate', 'bannedTerm', 'requiredTerm', 'ctaMissing', 'ctaWeak'];
+
+export type LintSeverity = 'error' | 'warning';
+
+const RULE_SEVERITY: Record<LintRule, LintSeverity> = {
+  maxChars: 'warning',
+  maxWords: 'warning',
+  readability: 'warning',
+  duplicate: 'error',
+  nearDuplicate: 'warning',
+  bannedTerm: 'error',
+  requiredTerm: 'warning',
+  ctaMissing: 'error',
+  ctaWeak: 'warning',
+};
+
+export const getLintSeverity = (rule: LintRule) => RULE_SEVERITY[rule];
+
+export interface LintIssue {
+  rule: LintRule;
+  carouselId: string;
+  // null for issues about the whole carousel.
+  slideIndex: number | null;
+  params: Record<string, string | number>;
+}
+
+export interface LintConfig {
+  checks: Record<LintCheck, boolean>;
+  // Counted on the phrase without emphasis markup.
+  maxChars: Record<Slide['tipo'], number>;
+  maxWords: Record<Slide['tipo'], number>;
+  maxWordsPerSentence: number;
+  // Share of words two phrases have in common (0 to 1) from which they count as near duplicates.
+  similarity: number;
+}
+
+export const DEFAULT_LINT_CONFIG: LintConfig = {
+  checks: { length: true, readability: true, duplicates: true, terms: true, cta: true },
+  maxChars: { capa: 90, conteudo: 200, cta: 120 },
+  maxWords: { capa: 14, conteudo: 35, cta: 20 },
+  maxWordsPerSentence: 22,
+  similarity: 0.8,
+};
+
+// Case, accents and punctuation do not matter when comparing phrases and terms.
+const normalizeText = (text: string) =>
+  stripEmphasis(text).toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\p{L}\p{N}#@]+/gu, ' ').trim();
+
+const getWords = (text: string) => normalizeText(text).split(' ').filter(Boolean);
+
+const containsTerm = (text: string, term: string) => {
+  const wanted = getWords(term).join(' ');
+  return !!wanted && ` ${getWords(text).join(' ')} `.includes(` ${wanted} `);
+};
+
+// Share of distinct words in common (Jaccard index).
+const getSimilarity = (a: string[], b: string[]) => {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const shared = Array.from(setA).filter(word => setB.has(word)).length;
+  return shared / (setA.size + setB.size - shared || 1);
+};
+
+// Words that make a phrase a call to action, by base language: patterns matched against
+// whole words without accents, so 'siga' counts and 'significa' does not. Languages
+// without a list skip the check.
+const CTA_WORDS: Record<string, string[]> = {
+  pt: ['sig(a|am)', 'segu(e|ir)', 'salv(a|e|em|ar)', 'guard(a|e|em|ar)', 'coment(a|e|em|ar|ario|arios)', 'compartilh(a|e|em|ar)',
+    'curt(a|am|e|ir)', 'cliq(ue|uem)', 'clic(a|ar)', 'acess(a|e|em|ar)', 'link', 'marq(ue|uem)', 'marc(a|ar)', 'envi(a|e|em|ar)',
+    'inscrev(a|am|e|er)', 'baix(a|e|em|ar)'],
+  en: ['follow', 'save', 'comment', 'share', 'like', 'click', 'tap', 'link', 'tag', 'subscribe', 'download', 'join', 'visit', 'dm'],
+  es: ['sigue(me|nos)?', 'seguir(me|nos)?', 'guarda(lo|la)?', 'comenta', 'comentar', 'comparte(lo|la)?', 'compartir(lo|la)?', 'dale',
+    'clic', 'click', 'enlace', 'link', 'etiqueta', 'suscribete', 'descarga(lo|la)?'],
+  fr: ['suis', 'suivez', 'suivre', 'abonne', 'abonnez', 'enregistre', 'enregistrez', 'sauvegarde', 'sauvegardez', 'commente', 'commentez',
+    'partage', 'partagez', 'lien', 'clique', 'cliquez', 'identifie', 'identifiez', 'telecharge', 'telechargez'],
+  it: ['segui(mi|ci)?', 'seguire', 'salva(lo|la)?', 'commenta', 'condividi', 'link', 'clicca', 'tagga', 'iscriviti', 'scarica'],
+  de: ['folge', 'folgt', 'speicher(e|n|t)?', 'kommentier(e|en|t)', 'teil(e|en|t)', 'link', 'klick(e|en|t)?', 'markier(e|en|t)',
+    'abonnier(e|en|t)', 'lade', 'herunterladen'],
+  nl: ['volg', 'bewaar', 'opslaan', 'reageer', 'deel', 'link', 'klik', 'tag', 'abonneer', 'download'],
+};
+
+const CTA_PATTERNS = Object.fromEntries(Object.entries(CTA_WORDS).map(([language, words]) => [language, new RegExp(`^(${words.join('|')})$`)]));
+
+const isCallToAction = (frase: string, language: Language): boolean | undefined => {
+  const pattern = CTA_PATTERNS[language.split('-')[0]];
+  return pattern && getWords(frase).some(word => pattern.test(word));
+};
+
+const getLongestSentence = (frase: string) =>
+  Math.max(0, ...stripEmphasis(frase).split(/[.!?…]+|\n/).map(sentence => getWords(sentence).length));
+
+// A cover with hooks is checked once per hook, as it is exported; those issues carry the
+// hook's letter.
+const lintSlide = (slide: Slide, index: number, carousel: Carousel, language: Language, config: LintConfig): LintIssue[] =>
+  getExportSlides(slide).flatMap(({ slide: shown, hook }) => {
+    const issues: LintIssue[] = [];
+    const add = (rule: LintRule, params: LintIssue['params'] = {}) =>
+      issues.push({ rule, carouselId: carousel.id, slideIndex: index, params: hook ? { ...params, hook: hook.letter } : params });
+    const text = stripEmphasis(shown.frase).trim();
+
+    if (config.checks.length) {
+      const chars = text.length;
+      const words = getWords(text).length;
+      if (chars > config.maxChars[slide.tipo]) add('maxChars', { count: chars, max: config.maxChars[slide.tipo] });
+      if (words > config.maxWords[slide.tipo]) add('maxWords', { count: words, max: config.maxWords[slide.tipo] });
+    }
+    if (config.checks.readability) {
+      const longest = getLongestSentence(text);
+      if (longest > config.maxWordsPerSentence) add('readability', { count: longest, max: config.maxWordsPerSentence });
+    }
+    if (config.checks.terms) {
+      for (const term of carousel.marca?.bannedTerms ?? []) {
+        if (containsTerm(text, term)) add('bannedTerm', { term });
+      }
+    }
+    if (config.checks.cta && slide.tipo === 'cta' && isCallToAction(text, language) === false) {
+      add('ctaWeak');
+    }
+    return issues;
+  });
+
+const lintCarousel = (carousel: Carousel, config: LintConfig): LintIssue[] => {
+  const issues: LintIssue[] = [];
+  const add = (rule: LintRule, params: LintIssue['params'] = {}) => issues.push({ rule, carouselId: carousel.id, slideIndex: null, params });
+
+  if (config.checks.terms) {
+    // The caption counts too: a brand name often belongs there rather than on a slide.
+    const text = [...carousel.slides.map(slide => slide.frase), carousel.legenda ?? ''].join('\n');
+    for (const term of carousel.marca?.requiredTerms ?? []) {
+      if (!containsTerm(text, term)) add('requiredTerm', { term });
+    }
+  }
+  if (config.checks.cta && carousel.cta_no_ultimo_slide && !carousel.slides.some(slide => slide.tipo === 'cta')) {
+    add('ctaMissing');
+  }
+  return issues;
+};
+
+/**
+ * Exact and near duplicates across the whole response, among slides in the same language.
+ * The later slide of a pair is flagged, so fixing it clears the issue. CTA slides are
+ * expected to repeat and are left out.
+ */
+const lintDuplicates = (response: ApiResponse, config: LintConfig): LintIssue[] => {
+  const issues: LintIssue[] = [];
+  const seen: { carousel: Carousel; slide: Slide; language: Language; text: string; words: string[] }[] = [];
+  for (const carousel of response.carrosseis) {
+    const language = getCarouselLanguage(carousel, response.language);
+    carousel.slides.forEach((slide, index) => {
+      if (slide.tipo === 'cta') return;
+      const words = getWords(slide.frase);
+      const text = words.join(' ');
+      if (!text) return;
+      const candidates = seen.filter(other => other.language === language);
+      const exact = candidates.find(other => other.text === text);
+      const near = exact ? undefined : candidates.find(other => getSimilarity(other.words, words) >= config.similarity);
+      const match = exact ?? near;
+      if (match) {
+        issues.push({
+          rule: exact ? 'duplicate' : 'nearDuplicate',
+          carouselId: carousel.id,
+          slideIndex: index,
+          params: { carousel: match.carousel.id, slide: match.slide.ordem, frase: stripEmphasis(match.slide.frase).trim() },
+        });
+      }
+      seen.push({ carousel, slide, language, text, words });
+    });
+  }
+  return issues;
+};
+
+export const lintResponse = (response: ApiResponse, config: LintConfig = DEFAULT_LINT_CONFIG): LintIssue[] => [
+  ...response.carrosseis.flatMap(carousel => {
+    const language = getCarouselLanguage(carousel, response.language);
+    return [
+      ...lintCarousel(carousel, config),
+      ...carousel.slides.flatMap((slide, index) => lintSlide(slide, index, carousel, language, config)),
+    ];
+  }),
+  ...(config.checks.duplicates ? lintDuplicates(response, config) : []),
+];
+
+export const describeLintIssue = (t: Translate, issue: Pick<LintIssue, 'rule' | 'params'>) => {
+  const text = t(`lint_${issue.rule}`, issue.params);
+  return issue.params.hook ? t('lint_onHook', { hook: issue.params.hook, text }) : text;
+};
+
+// Prompts are written in Portuguese, so the model reads the Portuguese descriptions.
+const promptTranslator = createTranslator('pt');
+
+export const describePromptLintIssue = (issue: Pick<LintIssue, 'rule' | 'params'>) => describeLintIssue(promptTranslator, issue);
+
+// The config is a browser preference, kept in localStorage.
+const LINT_CONFIG_KEY = 'lintConfig';
+
+export const loadLintConfig = (): LintConfig => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LINT_CONFIG_KEY) ?? 'null') as Partial<LintConfig> | null;
+    if (!stored) return DEFAULT_LINT_CONFIG;
+    // Merged with the defaults, so settings added later get a value.
+    return {
+      ...DEFAULT_LINT_CONFIG,
+      ...stored,
+      checks: { ...DEFAULT_LINT_CONFIG.checks, ...stored.checks },
+      maxChars: { ...DEFAULT_LINT_CONFIG.maxChars, ...stored.maxChars },
+      maxWords: { ...DEFAULT_LINT_CONFIG.maxWords, ...stored.maxWords },
+    };
+  } catch {
+    return DEFAULT_LINT_CONFIG;
+  }
+};
+
+export const saveLintConfig = (config: LintConfig) => localStorage.setItem(LINT_CONFIG_KEY, JSON.stringify(config));
@@ -0,0 +1,30 @@
+import type { CoverHook, Slide } from '../types';
+
+// Covers can carry several hooks to A/B test. The slide's 'frase' is the hook shown and
+// edited; exports render the cover once per hook.
+
+export const getHookLetter = (index: number) => String.fromCharCode(65 + index);
+
+/** The hook the slide shows, or -1 once its phrase has been edited away from all of them. */
+export const getActiveHookIndex = (slide: Slide) => slide.ganchos?.findIndex(hook => hook.frase === slide.frase) ?? -1;
+
+export const showHook = (slide: Slide, hook: CoverHook): Slide => ({ ...slide, frase: hook.frase });
+
+export interface ExportedSlide {
+  slide: Slide;
+  // For file names: '' or '_A', '_B'...
+  suffix: string;
+  hook?: CoverHook & { letter: string };
+}
+
+/**
+ * The images to export for a slide: one per hook for a cover showing one of its hooks,
+ * otherwise the slide itself (an edited cover is exported as edited).
+ */
+export const getExportSlides = (slide: Slide): ExportedSlide[] =>
+  slide.ganchos && slide.ganchos.length > 1 && getActiveHookIndex(slide) >= 0
+    ? slide.ganchos.map((hook, index) => {
+      const letter = getHookLetter(index);
+      return { slide: showHook(slide, hook), suffix: `_${letter}`, hook: { ...hook, letter } };
+    })
+    : [{ slide, suffix: '' }];
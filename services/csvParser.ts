@@ -0,0 +1,288 @@
+import type { Carousel, CsvRow, Slide } from '../types';
+import type { StyleGroup } from '../constants';
+import { findStyleId } from './styleOptions';
+
+export type CsvRowErrorCode = 'missingId' | 'invalidOrder' | 'missingPhrase' | 'duplicateOrder' | 'invalidType' | 'invalidStyle' | 'unterminatedQuote';
+
+type RequiredColumn = 'carrossel_id' | 'ordem_slide' | 'frase';
+type OptionalColumn = Exclude<keyof CsvRow, RequiredColumn>;
+
+export interface CsvPreviewRecord {
+  // 1-based line in the file where the record starts (the header is line 1).
+  line: number;
+  carrossel_id: string;
+  ordem_slide: string;
+  frase: string;
+  tipo?: string;
+  error?: CsvRowErrorCode;
+}
+
+export interface CsvImportResult {
+  rows: CsvRow[];
+  records: CsvPreviewRecord[];
+  rejectedCount: number;
+  delimiter: string;
+  encoding: string;
+  // Required columns that could not be found in the header.
+  missingColumns: string[];
+  // Optional override columns present in the header.
+  optionalColumns: string[];
+}
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+// Accepted header names for each column, compared after normalizeHeader().
+const COLUMN_ALIASES: Record<RequiredColumn, string[]> = {
+  carrossel_id: ['carrossel_id', 'carrossel', 'carousel_id', 'carousel', 'carrusel_id', 'carrusel', 'id'],
+  ordem_slide: ['ordem_slide', 'ordem', 'slide', 'order', 'slide_order', 'orden', 'orden_slide'],
+  frase: ['frase', 'phrase', 'texto', 'text', 'texto_slide'],
+};
+
+const OPTIONAL_COLUMN_ALIASES: Record<OptionalColumn, string[]> = {
+  tipo: ['tipo', 'type', 'slide_type'],
+  estilo_fundo: ['estilo_fundo', 'background_style', 'estilo_fondo'],
+  paleta_cores: ['paleta_cores', 'color_palette', 'paleta', 'palette', 'paleta_colores'],
+  tipografia: ['tipografia', 'typography', 'fonte', 'font'],
+  cta_tipo: ['cta_tipo', 'cta_type', 'tipo_cta'],
+  prompt_imagem: ['prompt_imagem', 'image_prompt', 'prompt_imagen'],
+  nicho: ['nicho', 'niche'],
+};
+
+// Slide types may be written in any of the UI languages.
+const SLIDE_TYPE_ALIASES: Record<string, Slide['tipo']> = {
+  capa: 'capa', cover: 'capa', portada: 'capa',
+  conteudo: 'conteudo', content: 'conteudo', contenido: 'conteudo',
+  cta: 'cta',
+};
+
+// Style columns take an option id or its label in any of the UI languages.
+const STYLE_COLUMNS = {
+  estilo_fundo: 'background',
+  paleta_cores: 'palette',
+  tipografia: 'typography',
+  cta_tipo: 'ctaType',
+} satisfies Partial<Record<OptionalColumn, StyleGroup>>;
+
+const normalizeHeader = (header: string) =>
+  header
+    .trim()
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\s-]+/g, '_');
+
+/**
+ * Decodes raw file bytes, honouring a BOM when present. Files without a BOM are
+ * read as UTF-8 and fall back to Windows-1252, which is what Excel writes by default.
+ */
+export const decodeCsvBytes = (buffer: ArrayBuffer): { text: string; encoding: string } => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'utf-8' };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'utf-16le' };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'utf-16be' };
+  }
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'windows-1252' };
+  }
+};
+
+/** Picks the candidate delimiter that appears most often, outside quotes, in the first line. */
+export const detectDelimiter = (text: string): string => {
+  const counts: Record<string, number> = Object.fromEntries(DELIMITERS.map(d => [d, 0]));
+  let inQuotes = false;
+  // As in parseCsv, only a quote at the start of a field opens a quoted field.
+  let atFieldStart = true;
+  for (const char of text) {
+    if (char === '"' && (inQuotes || atFieldStart)) {
+      inQuotes = !inQuotes;
+      // A closing quote followed by another one is an escaped quote.
+      atFieldStart = !inQuotes;
+    } else if (inQuotes) {
+      continue;
+    } else if (char === '\n' || char === '\r') {
+      break;
+    } else {
+      if (char in counts) counts[char]++;
+      atFieldStart = char in counts;
+    }
+  }
+  return DELIMITERS.reduce((best, d) => (counts[d] > counts[best] ? d : best), DELIMITERS[0]);
+};
+
+interface ParsedRecord {
+  line: number;
+  fields: string[];
+  unterminated?: boolean;
+}
+
+/**
+ * RFC 4180 tokenizer: quoted fields, `""` escapes, embedded line breaks and CRLF/LF/CR endings.
+ * A quote only opens a quoted field as its first character; anywhere else it is kept as text.
+ */
+export const parseCsv = (text: string, delimiter: string): ParsedRecord[] => {
+  const records: ParsedRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else if (char === '\r' && text[i + 1] === '\n') {
+        continue;
+      } else {
+        if (char === '\n' || char === '\r') line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    fields.push(field);
+    records.push({ line: recordLine, fields, unterminated: true });
+  } else if (field !== '' || fields.length > 0) {
+    endRecord();
+  }
+  return records;
+};
+
+const isBlankRecord = (record: ParsedRecord) => record.fields.every(f => f.trim() === '');
+
+/** Decodes, tokenizes and validates an uploaded CSV, keeping every data row for the preview. */
+export const importCsv = (buffer: ArrayBuffer): CsvImportResult => {
+  const { text, encoding } = decodeCsvBytes(buffer);
+  const delimiter = detectDelimiter(text);
+  const [header, ...dataRecords] = parseCsv(text, delimiter).filter(r => !isBlankRecord(r));
+
+  const headerNames = (header?.fields ?? []).map(normalizeHeader);
+  const findColumn = (aliases: string[]) => headerNames.findIndex(name => aliases.includes(name));
+  const columnIndex = Object.fromEntries(
+    (Object.keys(COLUMN_ALIASES) as RequiredColumn[]).map(column => [column, findColumn(COLUMN_ALIASES[column])])
+  ) as Record<RequiredColumn, number>;
+  const optionalIndex = Object.fromEntries(
+    (Object.keys(OPTIONAL_COLUMN_ALIASES) as OptionalColumn[])
+      .map(column => [column, findColumn(OPTIONAL_COLUMN_ALIASES[column])])
+      .filter(([, index]) => index !== -1)
+  ) as Partial<Record<OptionalColumn, number>>;
+  const optionalColumns = Object.keys(optionalIndex);
+  const missingColumns = (Object.keys(columnIndex) as RequiredColumn[]).filter(column => columnIndex[column] === -1);
+
+  if (missingColumns.length > 0) {
+    return { rows: [], records: [], rejectedCount: 0, delimiter, encoding, missingColumns, optionalColumns };
+  }
+
+  const seen = new Set<string>();
+  const rows: CsvRow[] = [];
+  const records = dataRecords.map((record): CsvPreviewRecord => {
+    const get = (index: number | undefined) => (index === undefined ? '' : (record.fields[index] ?? '').trim());
+    const preview: CsvPreviewRecord = {
+      line: record.line,
+      carrossel_id: get(columnIndex.carrossel_id),
+      ordem_slide: get(columnIndex.ordem_slide),
+      frase: get(columnIndex.frase),
+      tipo: get(optionalIndex.tipo) || undefined,
+    };
+    const tipo = preview.tipo ? SLIDE_TYPE_ALIASES[normalizeHeader(preview.tipo)] : undefined;
+    const styles = (Object.entries(STYLE_COLUMNS) as [keyof typeof STYLE_COLUMNS, StyleGroup][])
+      .map(([column, group]) => ({ column, value: get(optionalIndex[column]), id: findStyleId(group, get(optionalIndex[column])) }))
+      .filter(style => style.value);
+    const ordem = Number(preview.ordem_slide);
+    const key = `${preview.carrossel_id}\u0000${ordem}`;
+
+    if (record.unterminated) preview.error = 'unterminatedQuote';
+    else if (!preview.carrossel_id) preview.error = 'missingId';
+    else if (!/^\d+$/.test(preview.ordem_slide)) preview.error = 'invalidOrder';
+    else if (!preview.frase) preview.error = 'missingPhrase';
+    else if (seen.has(key)) preview.error = 'duplicateOrder';
+    else if (preview.tipo && !tipo) preview.error = 'invalidType';
+    else if (styles.some(style => !style.id)) preview.error = 'invalidStyle';
+
+    if (!preview.error) {
+      seen.add(key);
+      const row: CsvRow = { carrossel_id: preview.carrossel_id, ordem_slide: ordem, frase: preview.frase };
+      if (tipo) row.tipo = tipo;
+      const prompt = get(optionalIndex.prompt_imagem);
+      if (prompt) row.prompt_imagem = prompt;
+      const nicho = get(optionalIndex.nicho);
+      if (nicho) row.nicho = nicho;
+      Object.assign(row, Object.fromEntries(styles.map(style => [style.column, style.id])));
+      rows.push(row);
+    }
+    return preview;
+  });
+
+  return {
+    rows,
+    records,
+    rejectedCount: records.filter(r => r.error).length,
+    delimiter,
+    encoding,
+    missingColumns,
+    optionalColumns,
+  };
+};
+
+/** File pickers and drag-and-drop report many MIME types for CSV, so trust the extension too. */
+export const isCsvFile = (file: File) =>
+  /\.csv$/i.test(file.name) || ['text/csv', 'application/csv', 'text/comma-separated-values', 'application/vnd.ms-excel'].includes(file.type);
+
+// Columns written by exportCsv, in the names importCsv reads back.
+const EXPORT_COLUMNS = ['carrossel_id', 'ordem_slide', 'frase', 'tipo', 'prompt_imagem', 'nicho', 'estilo_fundo', 'paleta_cores', 'tipografia', 'cta_tipo'] as const;
+
+const escapeCsvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Serializes carousels as a CSV that importCsv accepts, one row per slide. Starts with
+ * a UTF-8 BOM so spreadsheet apps detect the encoding.
+ */
+export const exportCsv = (carousels: Carousel[]): string => {
+  const rows = carousels.flatMap(carousel => carousel.slides.map(slide => {
+    const row: Record<(typeof EXPORT_COLUMNS)[number], string> = {
+      carrossel_id: carousel.id,
+      ordem_slide: String(slide.ordem),
+      frase: slide.frase,
+      tipo: slide.tipo,
+      prompt_imagem: slide.prompt_imagem,
+      nicho: carousel.nicho ?? '',
+      estilo_fundo: carousel.estilo_fundo ?? '',
+      paleta_cores: carousel.paleta_cores ?? '',
+      tipografia: carousel.tipografia ?? '',
+      cta_tipo: carousel.cta_tipo ?? '',
+    };
+    return EXPORT_COLUMNS.map(column => escapeCsvField(row[column])).join(',');
+  }));
+  return `\uFEFF${[EXPORT_COLUMNS.join(','), ...rows].join('\r\n')}\r\n`;
+};
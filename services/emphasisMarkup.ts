@@ -0,0 +1,98 @@
+// Inline emphasis markup for slide phrases: **bold**, ==accent color== and __underline__.
+// Markers may be nested; a marker that is never closed is kept as literal text.
+
+export interface TextStyle {
+  bold: boolean;
+  accent: boolean;
+  underline: boolean;
+}
+
+export interface TextRun extends TextStyle {
+  text: string;
+}
+
+// A whitespace-delimited word whose parts may carry different styles, e.g. "**re**escrever".
+export interface StyledWord {
+  segments: TextRun[];
+  // The word without markup.
+  text: string;
+  // The phrase has an explicit line break right before this word.
+  breakBefore?: boolean;
+}
+
+export const EMPHASIS_MARKERS: Record<keyof TextStyle, string> = {
+  bold: '**',
+  accent: '==',
+  underline: '__',
+};
+
+const MARKER_STYLES: Record<string, keyof TextStyle> = Object.fromEntries(
+  Object.entries(EMPHASIS_MARKERS).map(([style, marker]) => [marker, style as keyof TextStyle])
+);
+
+export const parseEmphasis = (text: string): TextRun[] => {
+  const runs: TextRun[] = [];
+  const style: TextStyle = { bold: false, accent: false, underline: false };
+  let buffer = '';
+  const flush = () => {
+    if (buffer) runs.push({ text: buffer, ...style });
+    buffer = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const marker = text.slice(i, i + 2);
+    const key = MARKER_STYLES[marker];
+    if (key && (style[key] || text.indexOf(marker, i + 2) !== -1)) {
+      flush();
+      style[key] = !style[key];
+      i++;
+      continue;
+    }
+    buffer += text[i];
+  }
+  flush();
+  return runs;
+};
+
+/** The phrase as plain text, for word counts, search and anything that cannot show styles. */
+export const stripEmphasis = (text: string) => parseEmphasis(text).map(run => run.text).join('');
+
+/** Splits a phrase into words, keeping each word's styled segments and the explicit line breaks. */
+export const toStyledWords = (text: string): StyledWord[] => {
+  const words: StyledWord[] = [];
+  let segments: TextRun[] = [];
+  let breakBefore = false;
+  const pushWord = () => {
+    if (segments.length > 0) {
+      words.push({ segments, text: segments.map(s => s.text).join(''), ...(breakBefore ? { breakBefore } : {}) });
+      breakBefore = false;
+    }
+    segments = [];
+  };
+
+  for (const run of parseEmphasis(text)) {
+    for (const part of run.text.split(/(\s+)/)) {
+      if (/^\s+$/.test(part)) {
+        pushWord();
+        // Breaks before the first word are dropped, like leading spaces.
+        if (part.includes('\n') && words.length > 0) breakBefore = true;
+      } else if (part) {
+        segments.push({ ...run, text: part });
+      }
+    }
+  }
+  pushWord();
+  return words;
+};
+
+/** Wraps `value[start, end)` in the style's marker, or removes the marker when the selection is already wrapped. */
+export const toggleEmphasis = (value: string, start: number, end: number, style: keyof TextStyle) => {
+  const marker = EMPHASIS_MARKERS[style];
+  const before = value.slice(0, start);
+  const selected = value.slice(start, end);
+  const after = value.slice(end);
+  if (before.endsWith(marker) && after.startsWith(marker)) {
+    return { value: before.slice(0, -marker.length) + selected + after.slice(marker.length), start: start - marker.length, end: end - marker.length };
+  }
+  return { value: before + marker + selected + marker + after, start: start + marker.length, end: end + marker.length };
+};
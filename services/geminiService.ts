@@ -1,16 +1,15 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import type { CsvRow, ApiResponse } from '../types';
-
-const API_KEY = process.env.API_KEY;
-
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-const model = "gemini-2.5-flash";
+import { Type } from "@google/genai";
+import type { CsvRow, ApiResponse, Carousel, Slide, Language, CsvCarouselsMap, CSVGenerationParams, IAGenerationParams, SlideFormat, SlideFormatId, BrandKit } from '../types';
+import { SLIDE_FORMATS, LAYOUT_MARGIN_RANGE, HASHTAGS_RANGE, PHRASE_LANGUAGES } from '../constants';
+import { getActiveProvider, type TextGenerationRequest } from './providers';
+import { validateApiResponse, validateSlide, validateAlternatives, validateTranslation, type ResponseExpectations, type ValidationResult } from './responseValidator';
+import { scanStreamedCarousels } from './streamedResponse';
+import { getPromptStyleLabel } from './styleOptions';
+import { getVariantId } from './carouselVariants';
+import { stripEmphasis } from './emphasisMarkup';
+import { describePromptLintIssue, type LintIssue } from './contentLint';
+import { getHookLetter } from './coverHooks';
 
 const getSystemPrompt = () => `
   Você é uma IA desenvolvida para criar carrosséis em imagem para Instagram e gerar frases para qualquer nicho.
@@ -21,11 +20,106 @@ const getSystemPrompt = () => `
   Sua resposta DEVE ser um objeto JSON VÁLIDO e NADA MAIS. Não inclua markdown, explicações ou qualquer texto fora do objeto JSON.
 `;
 
+const getLayoutSchema = () => ({
+  type: Type.OBJECT,
+  properties: {
+    alinhamento: { type: Type.STRING, enum: ['esquerda', 'centro', 'direita'] },
+    posicao_vertical: { type: Type.STRING, enum: ['topo', 'centro', 'base'] },
+    palavras_titulo: { type: Type.INTEGER, description: 'Quantas palavras iniciais da frase formam o título; 0 para não separar' },
+    palavras_destaque: { type: Type.ARRAY, items: { type: Type.STRING } },
+    opacidade_overlay: { type: Type.NUMBER, description: 'Escurecimento sobre fotos, de 0 a 1' },
+    margem: { type: Type.NUMBER, description: `Margem interna como fração da largura, de ${LAYOUT_MARGIN_RANGE.min} a ${LAYOUT_MARGIN_RANGE.max}` },
+  },
+  required: ['alinhamento', 'posicao_vertical', 'palavras_titulo', 'palavras_destaque', 'opacidade_overlay', 'margem'],
+});
+
+const getHookSchema = () => ({
+  type: Type.OBJECT,
+  properties: {
+    frase: { type: Type.STRING },
+    motivo: { type: Type.STRING, description: 'A estratégia do gancho em poucas palavras' },
+  },
+  required: ['frase', 'motivo'],
+});
+
+const getSlideSchema = () => ({
+  type: Type.OBJECT,
+  properties: {
+    ordem: { type: Type.INTEGER },
+    tipo: { type: Type.STRING, enum: ['capa', 'conteudo', 'cta'], description: 'capa, conteudo, ou cta' },
+    frase: { type: Type.STRING },
+    instrucoes_layout: { type: Type.STRING },
+    layout: getLayoutSchema(),
+    prompt_imagem: { type: Type.STRING },
+    texto_alternativo: { type: Type.STRING },
+    ganchos: { type: Type.ARRAY, items: getHookSchema(), description: 'Só no slide de capa, quando pedido' },
+  },
+  required: ['ordem', 'tipo', 'frase', 'instrucoes_layout', 'layout', 'prompt_imagem', 'texto_alternativo'],
+});
+
+// Inline markup understood by the preview and the renderer (see emphasisMarkup.ts).
+const EMPHASIS_INSTRUCTIONS = `- Destaque de 1 a 3 palavras-chave por frase com marcação inline: **palavra** para negrito, ==palavra== para a cor de destaque e __palavra__ para sublinhado. Não use nenhuma outra marcação.`;
+
+// Alternative cover hooks for A/B tests, when more than one is asked for.
+const getHookInstructions = (hooksCount: number | undefined) => (hooksCount && hooksCount > 1
+  ? `- No slide de capa, gere também 'ganchos': exatamente ${hooksCount} versões do gancho para teste A/B, cada uma com 'frase' (com a mesma marcação de destaque) e 'motivo' (a estratégia em poucas palavras, no idioma das frases: curiosidade, polêmica, números, dor, promessa...). O primeiro gancho é a própria 'frase' da capa; os outros usam estratégias diferentes entre si.`
+  : '');
+
+// How to fill the 'layout' object; shared by every prompt that produces slides.
+const LAYOUT_INSTRUCTIONS = `- 'layout': o design do slide que será aplicado na imagem final, coerente com 'instrucoes_layout':
+      'alinhamento' (esquerda, centro ou direita), 'posicao_vertical' (topo, centro ou base),
+      'palavras_titulo' (quantas palavras iniciais da frase viram um título maior; 0 para não separar),
+      'palavras_destaque' (palavras exatas da frase a destacar na cor de destaque),
+      'opacidade_overlay' (0 a 1, escurecimento sobre fotos de fundo) e
+      'margem' (${LAYOUT_MARGIN_RANGE.min} a ${LAYOUT_MARGIN_RANGE.max}, fração da largura).`;
+
+// Alt text is part of every slide, so prompts that produce slides include this line.
+const ALT_TEXT_INSTRUCTIONS = `- 'texto_alternativo': descrição acessível da imagem final do slide (fundo e texto escrito), em uma ou duas frases, no idioma das frases.`;
+
+// The post copy that goes with each carousel.
+const getPostInstructions = (hashtagsCount: number, tone?: string) => `Para cada carrossel, gere também o texto da publicação, no idioma das frases:
+    - 'legenda': a legenda do post, com quebras de linha entre os parágrafos e emojis na medida do tom${tone ? ` (${tone})` : ''}; termine convidando à ação.
+    - 'hashtags': ${hashtagsCount > 0 ? `exatamente ${hashtagsCount} hashtags específicas do nicho, cada uma começando com #` : 'uma lista vazia'}.
+    - 'primeiro_comentario': um comentário curto para fixar no post, que complemente a legenda.`;
+
+const getAlternativesSchema = () => ({
+  type: Type.OBJECT,
+  properties: {
+    alternativas: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['alternativas'],
+});
+
+const getTranslationSchema = () => ({
+  type: Type.OBJECT,
+  properties: {
+    legenda: { type: Type.STRING },
+    hashtags: { type: Type.ARRAY, items: { type: Type.STRING } },
+    primeiro_comentario: { type: Type.STRING },
+    slides: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          ordem: { type: Type.INTEGER },
+          frase: { type: Type.STRING },
+          palavras_titulo: { type: Type.INTEGER },
+          palavras_destaque: { type: Type.ARRAY, items: { type: Type.STRING } },
+          texto_alternativo: { type: Type.STRING },
+          ganchos: { type: Type.ARRAY, items: getHookSchema() },
+        },
+        required: ['ordem', 'frase', 'palavras_titulo', 'palavras_destaque', 'texto_alternativo'],
+      },
+    },
+  },
+  required: ['legenda', 'hashtags', 'primeiro_comentario', 'slides'],
+});
+
 const getApiResponseSchema = () => ({
   type: Type.OBJECT,
   properties: {
     mode: { type: Type.STRING, description: 'ia ou csv' },
-    language: { type: Type.STRING, description: 'pt, en, ou es' },
+    language: { type: Type.STRING, description: 'Código do idioma das frases, ex.: pt, en, fr' },
     carrosseis: {
       type: Type.ARRAY,
       items: {
@@ -38,149 +132,549 @@ const getApiResponseSchema = () => ({
           paleta_cores: { type: Type.STRING, nullable: true },
           tipografia: { type: Type.STRING, nullable: true },
           cta_no_ultimo_slide: { type: Type.BOOLEAN, nullable: true },
+          legenda: { type: Type.STRING },
+          hashtags: { type: Type.ARRAY, items: { type: Type.STRING } },
+          primeiro_comentario: { type: Type.STRING },
           slides: {
             type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                ordem: { type: Type.INTEGER },
-                tipo: { type: Type.STRING, description: 'capa, conteudo, ou cta' },
-                frase: { type: Type.STRING },
-                instrucoes_layout: { type: Type.STRING },
-                prompt_imagem: { type: Type.STRING },
-              },
-              required: ['ordem', 'tipo', 'frase', 'instrucoes_layout', 'prompt_imagem'],
-            },
+            items: getSlideSchema(),
           },
         },
-        required: ['id', 'slides'],
+        required: ['id', 'legenda', 'hashtags', 'primeiro_comentario', 'slides'],
       },
     },
   },
   required: ['mode', 'language', 'carrosseis'],
 });
 
-const parseJsonResponse = (responseText: string): ApiResponse => {
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const describeFormat = (formatId: SlideFormatId) => {
+  const { width, height, imageAspectRatio } = SLIDE_FORMATS[formatId];
+  return `${width}x${height} px (proporção ${imageAspectRatio})`;
+};
+
+// The name spells out regional variants the bare code leaves open, e.g. pt-PT.
+const describeLanguage = (code: Language) => `${PHRASE_LANGUAGES[code] ?? code} (${code})`;
+
+const LOGO_POSITION_LABELS: Record<BrandKit['logoPosition'], string> = {
+  'top-left': 'superior esquerdo',
+  'top-right': 'superior direito',
+  'bottom-left': 'inferior esquerdo',
+  'bottom-right': 'inferior direito',
+};
+
+// Prompt lines for a brand kit. Its exact colors take precedence over the palette label.
+const describeBrandKit = (kit?: BrandKit) => {
+  if (!kit) return '';
+  const { background, text, accent, gradient } = kit.colors;
+  const lines = [
+    `- Kit de marca "${kit.name}" (tem prioridade sobre a paleta): fundo ${background}${gradient?.length ? ` em degradê ${gradient.join(' → ')}` : ''}, texto ${text}, destaque ${accent}. Use exatamente essas cores hexadecimais nas 'instrucoes_layout' e nos 'prompt_imagem'.`,
+  ];
+  if (kit.logo) lines.push(`- O logo da marca ocupa o canto ${LOGO_POSITION_LABELS[kit.logoPosition]}; mantenha essa área livre.`);
+  if (kit.handle || kit.footer) lines.push(`- Rodapé fixo em todos os slides: "${[kit.handle, kit.footer].filter(Boolean).join(' · ')}"; não repita esse texto nas frases.`);
+  if (kit.bannedTerms?.length) lines.push(`- Termos proibidos pela marca, que não podem aparecer nas frases nem na legenda: ${kit.bannedTerms.map(term => `"${term}"`).join(', ')}.`);
+  if (kit.requiredTerms?.length) lines.push(`- Termos que cada carrossel deve mencionar, numa frase ou na legenda: ${kit.requiredTerms.map(term => `"${term}"`).join(', ')}.`);
+  return lines.join('\n    ');
+};
+
+// The validator rebuilds carousels from the model's output, so settings the model
+// never sees as fields are attached afterwards.
+const withCarouselSettings = (response: ApiResponse, params: { format: SlideFormatId; brandKit?: BrandKit }): ApiResponse => ({
+  ...response,
+  carrosseis: response.carrosseis.map(carousel => ({
+    ...carousel,
+    formato: params.format,
+    ...(params.brandKit ? { marca: params.brandKit } : {}),
+  })),
+});
+
+const parseJsonResponse = (responseText: string): unknown => {
   try {
-    const cleanedText = responseText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-    return JSON.parse(cleanedText) as ApiResponse;
+    const cleanedText = responseText.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+    return JSON.parse(cleanedText);
   } catch (error) {
-    console.error("Failed to parse Gemini response:", responseText);
+    console.error("Failed to parse AI response:", responseText);
     throw new Error("A resposta da IA não está em formato JSON válido.");
   }
 };
 
-export const generateCarouselsFromIA = async (params: any): Promise<ApiResponse> => {
+const getRepairPrompt = (userPrompt: string, errors: string[]) => `
+  ${userPrompt}
+
+  ATENÇÃO: sua resposta anterior foi rejeitada pelos seguintes problemas:
+  ${errors.map(e => `- ${e}`).join('\n  ')}
+  Corrija todos eles e responda novamente com o objeto JSON completo.
+`;
+
+// Asks the active provider for a response and validates it, re-prompting with the
+// validation errors until it passes or MAX_REPAIR_ATTEMPTS is exhausted.
+const requestValidated = async <T>(request: TextGenerationRequest, validate: (raw: unknown) => ValidationResult<T>): Promise<T> => {
+  let errors: string[] = [];
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const prompt = attempt === 0 ? request.prompt : getRepairPrompt(request.prompt, errors);
+    const responseText = await getActiveProvider().generateText({ ...request, prompt });
+
+    let raw: unknown;
+    try {
+      raw = parseJsonResponse(responseText);
+    } catch (error: any) {
+      errors = [error.message];
+      continue;
+    }
+
+    const result = validate(raw);
+    if (result.fixes.length > 0) {
+      console.warn("AI response normalized:", result.fixes);
+    }
+    if (result.response) {
+      return result.response;
+    }
+    errors = result.errors;
+    console.warn(`AI response rejected (attempt ${attempt + 1}):`, errors);
+  }
+  throw new Error(`A resposta da IA continuou inválida após ${MAX_REPAIR_ATTEMPTS + 1} tentativas: ${errors.join(' ')}`);
+};
+
+const requestValidatedResponse = (request: TextGenerationRequest, expected: ResponseExpectations): Promise<ApiResponse> =>
+  requestValidated(request, raw => validateApiResponse(raw, expected));
+
+export interface CarouselUpdate {
+  // Position in the response's 'carrosseis'.
+  index: number;
+  carousel: Carousel;
+}
+
+export interface GenerationProgress {
+  // Finished carousels that are new or changed since the previous report, validated and
+  // ready to show. Reports come only when the carousel or slide count changes.
+  updates: CarouselUpdate[];
+  carousels: number;
+  slides: number;
+  expectedCarousels?: number;
+}
+
+export interface GenerationOptions {
+  onProgress?: (progress: GenerationProgress) => void;
+  // Aborts the request; carousels already reported through onProgress stay valid.
+  signal?: AbortSignal;
+}
+
+// Streams the response when progress is wanted, reporting each carousel as soon as its
+// JSON object closes. `finish` applies the same post-processing as the final response.
+const withStreaming = (
+  request: TextGenerationRequest,
+  expected: ResponseExpectations,
+  finish: (response: ApiResponse) => ApiResponse,
+  { onProgress, signal }: GenerationOptions,
+): TextGenerationRequest => {
+  if (!onProgress) return { ...request, signal };
+  // Counts are only known for the whole response.
+  const partialExpectations: ResponseExpectations = { ...expected, carouselsCount: undefined, carouselSlideCounts: undefined };
+  // The carousels already reported, as JSON, by position.
+  const reported: string[] = [];
+  let scanned = 0;
+  let slides = 0;
+  return {
+    ...request,
+    signal,
+    onText: text => {
+      const streamed = scanStreamedCarousels(text);
+      if (streamed.carousels.length === scanned && streamed.slides === slides) return;
+      let updates: CarouselUpdate[] = [];
+      if (streamed.carousels.length > 0 && streamed.carousels.length !== scanned) {
+        // A carousel that fails validation keeps the last good list until the final response.
+        const result = validateApiResponse({ mode: expected.mode, language: expected.language, carrosseis: streamed.carousels }, partialExpectations);
+        updates = result.response ? finish(result.response).carrosseis.flatMap((carousel, index) => {
+          const json = JSON.stringify(carousel);
+          if (reported[index] === json) return [];
+          reported[index] = json;
+          return [{ index, carousel }];
+        }) : [];
+      }
+      scanned = streamed.carousels.length;
+      slides = streamed.slides;
+      onProgress({ updates, carousels: scanned, slides, expectedCarousels: expected.carouselsCount });
+    },
+  };
+};
+
+export const generateCarouselsFromIA = async (params: IAGenerationParams, options: GenerationOptions = {}): Promise<ApiResponse> => {
   const userPrompt = `
     Gere ${params.carouselsCount} carrossel(eis) com as seguintes especificações:
     - Modo: ia
-    - Idioma para as frases: ${params.phrasesLanguage}
+    - Idioma para as frases: ${describeLanguage(params.phrasesLanguage)}
     - Nicho: ${params.niche}
     - Contexto/Objetivo: ${params.context}
     - Tom: ${params.tone}
     - Quantidade de slides por carrossel: ${params.slidesCount}
-    - Estilo de fundo: ${params.backgroundStyle}
-    - Paleta de cores: ${params.colorPalette}
-    - Estilo de tipografia: ${params.typography}
+    - Estilo de fundo: ${getPromptStyleLabel('background', params.backgroundStyle)}
+    - Paleta de cores: ${getPromptStyleLabel('palette', params.colorPalette)}
+    - Estilo de tipografia: ${getPromptStyleLabel('typography', params.typography)}
+    - Formato das imagens: ${describeFormat(params.format)}
+    ${describeBrandKit(params.brandKit)}
     - CTA no último slide: ${params.cta ? 'Sim' : 'Não'}
-    ${params.cta ? `- Tipo de CTA: ${params.ctaType}` : ''}
+    ${params.cta ? `- Tipo de CTA: ${getPromptStyleLabel('ctaType', params.ctaType)}` : ''}
     
     Regras para as frases:
     - A primeira frase deve ser a capa, com um gancho forte.
     - As frases intermediárias devem desenvolver a ideia.
     - A última frase deve ser um CTA (se solicitado) ou uma mensagem de impacto.
     - As frases devem ser curtas, diretas e adequadas ao nicho, contexto e tom.
+    ${EMPHASIS_INSTRUCTIONS}
 
     Para cada slide, gere:
     - 'ordem': número do slide.
     - 'tipo': 'capa', 'conteudo' ou 'cta'.
     - 'frase': o texto do slide.
     - 'instrucoes_layout': instruções claras de design (posição do texto, destaque, etc.).
-    - 'prompt_imagem': um prompt detalhado para um gerador de imagens de IA, combinando o estilo de fundo, paleta, tipografia e o contexto do nicho para criar a imagem de fundo.
+    ${LAYOUT_INSTRUCTIONS}
+    - 'prompt_imagem': um prompt detalhado para um gerador de imagens de IA, combinando o estilo de fundo, paleta, tipografia e o contexto do nicho para criar a imagem de fundo, composta para o formato indicado.
+    ${ALT_TEXT_INSTRUCTIONS}
+    ${getHookInstructions(params.hooksCount)}
+
+    ${getPostInstructions(params.hashtagsCount, params.tone)}
   `;
 
-  const response = await ai.models.generateContent({
-    model: model,
-    contents: userPrompt,
-    config: {
-      systemInstruction: getSystemPrompt(),
-      responseMimeType: "application/json",
-      responseSchema: getApiResponseSchema(),
-    },
-  });
+  const expected: ResponseExpectations = {
+    mode: 'ia',
+    language: params.phrasesLanguage,
+    carouselsCount: params.carouselsCount,
+    slidesCount: params.slidesCount,
+    ctaOnLastSlide: params.cta,
+    hashtagsCount: params.hashtagsCount,
+    hooksCount: params.hooksCount,
+  };
+  // The chosen style ids, not whatever the model echoed back.
+  const style: Partial<Carousel> = {
+    estilo_fundo: params.backgroundStyle,
+    paleta_cores: params.colorPalette,
+    tipografia: params.typography,
+    cta_tipo: params.cta ? params.ctaType : undefined,
+  };
+  const finish = (response: ApiResponse) => withCarouselSettings({ ...response, carrosseis: response.carrosseis.map(carousel => ({ ...carousel, ...style })) }, params);
 
-  return parseJsonResponse(response.text);
+  const response = await requestValidatedResponse(withStreaming({
+    systemInstruction: getSystemPrompt(),
+    prompt: userPrompt,
+    responseSchema: getApiResponseSchema(),
+    task: { kind: 'ia', params },
+  }, expected, finish, options), expected);
+
+  return finish(response);
 };
 
 
-export const generateCarouselsFromCSV = async (csvData: CsvRow[], params: any): Promise<ApiResponse> => {
+const CAROUSEL_OVERRIDE_FIELDS = ['nicho', 'estilo_fundo', 'paleta_cores', 'tipografia', 'cta_tipo'] as const;
+
+const buildCsvCarouselsMap = (csvData: CsvRow[]): CsvCarouselsMap => {
   const carouselsMap = csvData.reduce((acc, row) => {
-    if (!acc[row.carrossel_id]) {
-      acc[row.carrossel_id] = [];
-    }
-    acc[row.carrossel_id].push({ ordem: row.ordem_slide, frase: row.frase });
+    const spec = acc[row.carrossel_id] ??= { slides: [] };
+    CAROUSEL_OVERRIDE_FIELDS.forEach(field => {
+      if (row[field] && !spec[field]) Object.assign(spec, { [field]: row[field] });
+    });
+    spec.slides.push({
+      ordem: row.ordem_slide,
+      frase: row.frase,
+      ...(row.tipo ? { tipo: row.tipo } : {}),
+      ...(row.prompt_imagem ? { prompt_imagem: row.prompt_imagem } : {}),
+    });
     return acc;
-  }, {} as Record<string, { ordem: number; frase: string }[]>);
+  }, {} as CsvCarouselsMap);
+
+  Object.values(carouselsMap).forEach(spec => spec.slides.sort((a, b) => a.ordem - b.ordem));
+  return carouselsMap;
+};
+
+// Values the user wrote in the CSV are authoritative: put them back even if the
+// model rewrote or dropped them.
+const applyCsvOverrides = (response: ApiResponse, carouselsMap: CsvCarouselsMap, params: CSVGenerationParams): ApiResponse => ({
+  ...response,
+  carrosseis: response.carrosseis.map(carousel => {
+    const spec = carouselsMap[carousel.id];
+    if (!spec) return carousel;
+    return {
+      ...carousel,
+      nicho: spec.nicho ?? carousel.nicho,
+      estilo_fundo: spec.estilo_fundo ?? params.backgroundStyle,
+      paleta_cores: spec.paleta_cores ?? params.colorPalette,
+      tipografia: spec.tipografia ?? params.typography,
+      cta_tipo: params.cta ? spec.cta_tipo ?? params.ctaType : undefined,
+      slides: carousel.slides.map((slide, index) => {
+        const row = spec.slides[index];
+        if (!row) return slide;
+        return {
+          ...slide,
+          frase: row.frase,
+          tipo: row.tipo ?? slide.tipo,
+          prompt_imagem: row.prompt_imagem ?? slide.prompt_imagem,
+        };
+      }),
+    };
+  }),
+});
+
+// The model reads style labels; the map itself keeps the ids for applyCsvOverrides.
+const describeCsvCarousels = (carouselsMap: CsvCarouselsMap) => JSON.stringify(Object.fromEntries(
+  Object.entries(carouselsMap).map(([id, spec]) => [id, {
+    ...spec,
+    estilo_fundo: spec.estilo_fundo && getPromptStyleLabel('background', spec.estilo_fundo),
+    paleta_cores: spec.paleta_cores && getPromptStyleLabel('palette', spec.paleta_cores),
+    tipografia: spec.tipografia && getPromptStyleLabel('typography', spec.tipografia),
+    cta_tipo: spec.cta_tipo && getPromptStyleLabel('ctaType', spec.cta_tipo),
+  }])
+), null, 2);
 
-  Object.values(carouselsMap).forEach(slides => slides.sort((a, b) => a.ordem - b.ordem));
+export const generateCarouselsFromCSV = async (csvData: CsvRow[], params: CSVGenerationParams, options: GenerationOptions = {}): Promise<ApiResponse> => {
+  const carouselsMap = buildCsvCarouselsMap(csvData);
 
   const userPrompt = `
     Gere o conceito visual para os carrosséis definidos abaixo, com base nas frases fornecidas.
     - Modo: csv
-    - Idioma da interface: ${params.language}
-    - Estilo de fundo padrão para todos: ${params.backgroundStyle}
-    - Paleta de cores padrão para todos: ${params.colorPalette}
-    - Estilo de tipografia padrão para todos: ${params.typography}
+    - Idioma das frases, da legenda e do texto alternativo: ${describeLanguage(params.language)}
+    - Estilo de fundo padrão para todos: ${getPromptStyleLabel('background', params.backgroundStyle)}
+    - Paleta de cores padrão para todos: ${getPromptStyleLabel('palette', params.colorPalette)}
+    - Estilo de tipografia padrão para todos: ${getPromptStyleLabel('typography', params.typography)}
+    - Formato das imagens: ${describeFormat(params.format)}
+    ${describeBrandKit(params.brandKit)}
     - CTA no último slide: ${params.cta ? 'Sim' : 'Não'}
-    ${params.cta ? `- Tipo de CTA: ${params.ctaType}` : ''}
+    ${params.cta ? `- Tipo de CTA: ${getPromptStyleLabel('ctaType', params.ctaType)}` : ''}
 
     Se CTA for 'Sim', adicione um slide de CTA ao final de cada carrossel com uma frase apropriada.
 
+    Alguns carrosséis trazem seus próprios valores de 'nicho', 'estilo_fundo', 'paleta_cores', 'tipografia' e 'cta_tipo'.
+    Quando presentes, eles substituem os padrões acima para aquele carrossel.
+
     Para cada slide de cada carrossel, gere:
     - 'ordem': número do slide.
-    - 'tipo': 'capa' para o primeiro slide, 'conteudo' para os intermediários, 'cta' para o último se aplicável.
+    - 'tipo': use o 'tipo' fornecido, se houver; caso contrário, 'capa' para o primeiro slide, 'conteudo' para os intermediários, 'cta' para o último se aplicável.
     - 'frase': use a frase fornecida.
     - 'instrucoes_layout': instruções claras de design (posição do texto, destaque, etc.).
-    - 'prompt_imagem': um prompt detalhado para um gerador de imagens de IA, combinando o estilo de fundo, paleta, tipografia e o contexto do nicho para criar a imagem de fundo.
+    ${LAYOUT_INSTRUCTIONS}
+    - 'prompt_imagem': se o slide já tiver 'prompt_imagem', copie-o sem alterações; caso contrário, gere um prompt detalhado para um gerador de imagens de IA, combinando o estilo de fundo, paleta, tipografia e o contexto do nicho para criar a imagem de fundo, composta para o formato indicado.
+    ${ALT_TEXT_INSTRUCTIONS}
+
+    ${getPostInstructions(params.hashtagsCount)}
 
     Dados dos carrosséis:
-    ${JSON.stringify(carouselsMap, null, 2)}
+    ${describeCsvCarousels(carouselsMap)}
   `;
 
-  const response = await ai.models.generateContent({
-    model: model,
-    contents: userPrompt,
-    config: {
-      systemInstruction: getSystemPrompt(),
-      responseMimeType: "application/json",
-      responseSchema: getApiResponseSchema(),
-    },
+  const carouselSlideCounts = Object.fromEntries(
+    Object.entries(carouselsMap).map(([id, spec]) => [id, spec.slides.length + (params.cta ? 1 : 0)])
+  );
+
+  const expected: ResponseExpectations = {
+    mode: 'csv',
+    language: params.language,
+    carouselsCount: Object.keys(carouselsMap).length,
+    carouselSlideCounts,
+    ctaOnLastSlide: params.cta,
+    hashtagsCount: params.hashtagsCount,
+  };
+  const finish = (response: ApiResponse) => withCarouselSettings(applyCsvOverrides(response, carouselsMap, params), params);
+
+  const response = await requestValidatedResponse(withStreaming({
+    systemInstruction: getSystemPrompt(),
+    prompt: userPrompt,
+    responseSchema: getApiResponseSchema(),
+    task: { kind: 'csv', carousels: carouselsMap, params },
+  }, expected, finish, options), expected);
+
+  return finish(response);
+};
+
+// Context shared by the targeted calls below: the carousel's look plus every slide's text.
+const describeCarousel = (carousel: Carousel) => JSON.stringify({
+  nicho: carousel.nicho,
+  contexto: carousel.contexto,
+  estilo_fundo: getPromptStyleLabel('background', carousel.estilo_fundo),
+  paleta_cores: getPromptStyleLabel('palette', carousel.paleta_cores),
+  tipografia: getPromptStyleLabel('typography', carousel.tipografia),
+  slides: carousel.slides.map(({ ordem, tipo, frase }) => ({ ordem, tipo, frase })),
+}, null, 2);
+
+/**
+ * Rewrites one slide's phrase using the rest of the carousel as context. The slide keeps its
+ * position, type and image, and a cover keeps its number of hooks. With lint `issues`, the
+ * phrase and hooks are fixed rather than replaced.
+ */
+export const rewriteSlide = async (carousel: Carousel, slideIndex: number, language: Language, issues: LintIssue[] = []): Promise<Slide> => {
+  const slide = carousel.slides[slideIndex];
+  const hooksCount = slide.tipo === 'capa' ? slide.ganchos?.length : undefined;
+  const hooks = hooksCount && hooksCount > 1 ? slide.ganchos! : [];
+  const phraseInstructions = issues.length > 0
+    ? `- Frase atual: "${slide.frase}"
+    ${hooks.map((hook, index) => `- Gancho ${getHookLetter(index)}: "${hook.frase}" (${hook.motivo})`).join('\n    ')}
+    - Corrija os problemas abaixo mantendo a ideia de cada frase e mudando só o necessário:
+    ${issues.map(issue => `  - ${describePromptLintIssue(issue)}`).join('\n    ')}
+    ${hooks.length > 0 ? `- Devolva também 'ganchos': os ${hooks.length} ganchos na mesma ordem, com os corrigidos no lugar dos originais. A 'frase' é o gancho que a capa mostra.` : ''}`
+    : `- Frase atual, que deve ser substituída por uma diferente: "${slide.frase}"
+    - A nova frase deve continuar a ideia do slide anterior e preparar o seguinte, curta e direta.
+    ${getHookInstructions(hooksCount)}`;
+  const userPrompt = `
+    Reescreva APENAS o slide ${slide.ordem} do carrossel abaixo.
+    - Idioma da frase: ${describeLanguage(language)}
+    - Tipo do slide: ${slide.tipo} (mantenha)
+    ${phraseInstructions}
+    ${EMPHASIS_INSTRUCTIONS}
+    - Gere novas 'instrucoes_layout' e um novo 'layout' adequados à nova frase.
+    ${LAYOUT_INSTRUCTIONS}
+    ${ALT_TEXT_INSTRUCTIONS}
+
+    Carrossel completo:
+    ${describeCarousel(carousel)}
+
+    Responda com um único objeto de slide (ordem, tipo, frase, instrucoes_layout, layout, prompt_imagem, texto_alternativo${hooks.length > 0 ? ', ganchos' : ''}).
+  `;
+
+  const rewritten = await requestValidated({
+    systemInstruction: getSystemPrompt(),
+    prompt: userPrompt,
+    responseSchema: getSlideSchema(),
+    task: { kind: 'rewriteSlide', carousel, slideIndex, language, issues },
+  }, raw => validateSlide(raw, slide, hooksCount));
+
+  return { ...rewritten, prompt_imagem: slide.prompt_imagem, ...(slide.fundo ? { fundo: slide.fundo } : {}) };
+};
+
+/** Generates new phrases for a whole carousel, keeping its id, visual style and slide count. */
+export const regenerateCarousel = async (carousel: Carousel, language: Language): Promise<Carousel> => {
+  const slidesCount = carousel.slides.length;
+  const cta = carousel.cta_no_ultimo_slide ?? carousel.slides[slidesCount - 1]?.tipo === 'cta';
+  const hashtagsCount = carousel.hashtags?.length ?? HASHTAGS_RANGE.default;
+  // A cover with hooks gets as many new ones.
+  const hooksCount = carousel.slides.find(slide => slide.tipo === 'capa')?.ganchos?.length;
+  const userPrompt = `
+    Gere 1 carrossel novo para substituir o carrossel abaixo, com frases diferentes das atuais.
+    - Modo: ia
+    - Idioma para as frases: ${describeLanguage(language)}
+    - Nicho: ${carousel.nicho ?? ''}
+    - Contexto/Objetivo: ${carousel.contexto ?? ''}
+    - Quantidade de slides: ${slidesCount}
+    - Estilo de fundo: ${getPromptStyleLabel('background', carousel.estilo_fundo)}
+    - Paleta de cores: ${getPromptStyleLabel('palette', carousel.paleta_cores)}
+    - Estilo de tipografia: ${getPromptStyleLabel('typography', carousel.tipografia)}
+    - Formato das imagens: ${describeFormat(carousel.formato ?? 'square')}
+    ${describeBrandKit(carousel.marca)}
+    - CTA no último slide: ${cta ? 'Sim' : 'Não'}
+    ${EMPHASIS_INSTRUCTIONS}
+
+    Carrossel atual:
+    ${describeCarousel(carousel)}
+
+    Para cada slide, gere 'ordem', 'tipo', 'frase', 'instrucoes_layout', 'layout', 'prompt_imagem' e 'texto_alternativo', como no carrossel original.
+    ${LAYOUT_INSTRUCTIONS}
+    ${ALT_TEXT_INSTRUCTIONS}
+    ${getHookInstructions(hooksCount)}
+
+    ${getPostInstructions(hashtagsCount)}
+  `;
+
+  const response = await requestValidatedResponse({
+    systemInstruction: getSystemPrompt(),
+    prompt: userPrompt,
+    responseSchema: getApiResponseSchema(),
+    task: { kind: 'regenerateCarousel', carousel, language },
+  }, {
+    mode: 'ia',
+    language,
+    carouselsCount: 1,
+    slidesCount,
+    ctaOnLastSlide: cta,
+    hashtagsCount,
+    hooksCount,
   });
 
-  return parseJsonResponse(response.text);
+  const [regenerated] = response.carrosseis;
+  return {
+    ...carousel,
+    contexto: regenerated.contexto ?? carousel.contexto,
+    legenda: regenerated.legenda ?? carousel.legenda,
+    hashtags: regenerated.hashtags ?? carousel.hashtags,
+    primeiro_comentario: regenerated.primeiro_comentario ?? carousel.primeiro_comentario,
+    // Uploaded backgrounds stay on the slide at the same position.
+    slides: regenerated.slides.map((slide, i) => (carousel.slides[i]?.fundo ? { ...slide, fundo: carousel.slides[i].fundo } : slide)),
+  };
 };
 
-export const generateImage = async (prompt: string): Promise<string | null> => {
-  try {
-    const imageAi = new GoogleGenAI({ apiKey: API_KEY });
-    const response = await imageAi.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [{ text: prompt }],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE],
-      },
-    });
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) {
-        const base64ImageBytes: string = part.inlineData.data;
-        return `data:image/png;base64,${base64ImageBytes}`;
-      }
-    }
-    return null;
-  } catch (error) {
-    console.error("Error generating image:", error);
-    return null;
-  }
-};
\ No newline at end of file
+/** Suggests `count` alternative phrases for one slide; the slide itself is left untouched. */
+export const generatePhraseAlternatives = async (carousel: Carousel, slideIndex: number, language: Language, count = 3): Promise<string[]> => {
+  const slide = carousel.slides[slideIndex];
+  const userPrompt = `
+    Sugira ${count} frases alternativas para o slide ${slide.ordem} (tipo '${slide.tipo}') do carrossel abaixo.
+    - Idioma das frases: ${describeLanguage(language)}
+    - Frase atual: "${slide.frase}"
+    - As alternativas devem ser diferentes entre si e da frase atual, mantendo a função do slide no carrossel.
+    ${EMPHASIS_INSTRUCTIONS}
+
+    Carrossel completo:
+    ${describeCarousel(carousel)}
+
+    Responda com um objeto { "alternativas": [...] }.
+  `;
+
+  return requestValidated({
+    systemInstruction: getSystemPrompt(),
+    prompt: userPrompt,
+    responseSchema: getAlternativesSchema(),
+    task: { kind: 'alternatives', carousel, slideIndex, language, count },
+  }, raw => validateAlternatives(raw, count, slide.frase));
+};
+
+// The original phrase fits its slide; translations may run this much longer before the
+// renderer has to shrink the text.
+const TRANSLATION_LENGTH_SLACK = 1.15;
+
+/**
+ * Translates a carousel into `language` as a variant linked to it: same slides, types,
+ * layout and backgrounds, with the phrases, alt texts and post copy localized.
+ */
+export const translateCarousel = async (carousel: Carousel, from: Language, language: Language): Promise<Carousel> => {
+  const hashtagsCount = carousel.hashtags?.length ?? 0;
+  const source = {
+    nicho: carousel.nicho,
+    legenda: carousel.legenda,
+    hashtags: carousel.hashtags,
+    primeiro_comentario: carousel.primeiro_comentario,
+    slides: carousel.slides.map(({ ordem, tipo, frase, layout, texto_alternativo, ganchos }) => ({
+      ordem,
+      tipo,
+      frase,
+      max_caracteres: Math.ceil(stripEmphasis(frase).length * TRANSLATION_LENGTH_SLACK),
+      palavras_titulo: layout?.palavras_titulo ?? 0,
+      texto_alternativo,
+      ganchos,
+    })),
+  };
+  const userPrompt = `
+    Traduza o carrossel abaixo de ${describeLanguage(from)} para ${describeLanguage(language)}.
+    - Mantenha a quantidade, a ordem ('ordem') e a função de cada slide; traduza apenas os textos.
+    - Adapte as frases como um nativo as escreveria, no mesmo tom, sem tradução literal.
+    - Cada frase traduzida deve caber no slide: no máximo 'max_caracteres' caracteres, sem contar a marcação.
+    - Mantenha a marcação de destaque (**, ==, __) nas palavras correspondentes da tradução.
+    ${carousel.cta_tipo ? `- No slide de CTA, use a chamada para ação usual no idioma de destino para: ${getPromptStyleLabel('ctaType', carousel.cta_tipo)}.` : ''}
+    - 'palavras_titulo': quantas palavras iniciais da frase traduzida formam o título, como no original; 0 para não separar.
+    - 'palavras_destaque': palavras exatas da frase traduzida a destacar na cor de destaque.
+    - 'texto_alternativo': a tradução do texto alternativo do slide, ajustada à frase traduzida.
+    - 'ganchos': se o slide tiver ganchos, traduza cada um ('frase' e 'motivo'), na mesma ordem e com o mesmo limite de caracteres da frase.
+    - Traduza também 'legenda' e 'primeiro_comentario'. Em 'hashtags', ${hashtagsCount > 0 ? `adapte as ${hashtagsCount} hashtags ao idioma de destino, cada uma começando com #` : 'responda com uma lista vazia'}.
+
+    Carrossel:
+    ${JSON.stringify(source, null, 2)}
+
+    Responda com um objeto { legenda, hashtags, primeiro_comentario, slides: [{ ordem, frase, palavras_titulo, palavras_destaque, texto_alternativo, ganchos? }] }.
+  `;
+
+  const translated = await requestValidated({
+    systemInstruction: getSystemPrompt(),
+    prompt: userPrompt,
+    responseSchema: getTranslationSchema(),
+    task: { kind: 'translateCarousel', carousel, from, language },
+  }, raw => validateTranslation(raw, carousel));
+
+  return { ...translated, id: getVariantId(carousel, language), variante_de: carousel.id, idioma: language };
+};
+
+export const generateImage = (prompt: string, format: SlideFormat = SLIDE_FORMATS.square): Promise<string | null> =>
+  getActiveProvider().generateImage(`${prompt}\n\nProporção da imagem: ${format.imageAspectRatio} (${format.width}x${format.height} px).`, format);
@@ -0,0 +1,193 @@
+import type { SlideFormat } from '../types';
+import { generateImage } from './backendClient';
+import { runRequest } from './localDb';
+import { localizedError } from '../locales';
+
+// Shared queue for background images: at most MAX_CONCURRENT_IMAGES calls at once
+// across all carousels, retries with exponential backoff on server errors, waits out
+// the backend's Retry-After on rate limits without using up an attempt, and a
+// persistent IndexedDB cache so a prompt is generated once while cached.
+
+export type ImageJobStatus = 'queued' | 'generating' | 'done' | 'failed';
+
+export interface ImageJob {
+  status: ImageJobStatus;
+  url?: string;
+  // The caught error, shown with describeError.
+  error?: unknown;
+  // 1-based attempt currently running or last run.
+  attempt: number;
+}
+
+interface CachedImage {
+  id: string;
+  url: string;
+  createdAt: number;
+}
+
+const STORE = 'images';
+const MAX_CONCURRENT_IMAGES = 2;
+const MAX_ATTEMPTS = 4;
+const BASE_RETRY_DELAY_MS = 1000;
+// Waits on Retry-After are free, up to this many per image.
+const MAX_RATE_LIMIT_WAITS = 10;
+// The cache keeps the newest MAX_CACHED_IMAGES images, none older than MAX_CACHE_AGE_MS.
+// Projects keep their own copies, so an evicted image only costs a regeneration.
+const MAX_CACHED_IMAGES = 200;
+const MAX_CACHE_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const jobs = new Map<string, ImageJob>();
+const waiters = new Map<string, ((url: string | null) => void)[]>();
+const queue: { key: string; prompt: string; format: SlideFormat }[] = [];
+let running = 0;
+
+const listeners = new Set<() => void>();
+let version = 0;
+
+const setJob = (key: string, job: ImageJob) => {
+  jobs.set(key, job);
+  version++;
+  listeners.forEach(listener => listener());
+};
+
+// The same prompt renders differently per aspect ratio; the server picks the provider.
+const getImageKey = (prompt: string, format: SlideFormat) => `${format.imageAspectRatio}|${prompt}`;
+
+export const getImageJob = (prompt: string, format: SlideFormat): ImageJob | undefined => jobs.get(getImageKey(prompt, format));
+
+/** For `useSyncExternalStore`: notifies on every job change. */
+export const subscribeImageJobs = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getImageJobsVersion = () => version;
+
+// A cache that cannot be opened (private browsing) only costs regenerations. Node, for
+// the command-line generator, has no IndexedDB at all.
+const hasCache = typeof indexedDB !== 'undefined';
+
+const readCache = (key: string) =>
+  hasCache
+    ? runRequest<CachedImage | undefined>(STORE, 'readonly', store => store.get(key))
+      .then(entry => (entry && entry.createdAt > Date.now() - MAX_CACHE_AGE_MS ? entry.url : null), () => null)
+    : Promise.resolve(null);
+
+// Keys only, oldest first, so eviction never loads the images themselves.
+const evictCache = async () => {
+  const keys = await runRequest(STORE, 'readonly', store => store.index('createdAt').getAllKeys());
+  const expired = await runRequest(STORE, 'readonly', store => store.index('createdAt').getAllKeys(IDBKeyRange.upperBound(Date.now() - MAX_CACHE_AGE_MS)));
+  for (const key of keys.slice(0, Math.max(expired.length, keys.length - MAX_CACHED_IMAGES))) {
+    await runRequest(STORE, 'readwrite', store => store.delete(key));
+  }
+};
+
+const writeCache = async (key: string, url: string) =>
+  hasCache && runRequest(STORE, 'readwrite', store => store.put({ id: key, url, createdAt: Date.now() } satisfies CachedImage))
+    .then(evictCache)
+    .catch(err => console.error('Failed to cache image', err));
+
+const deleteCache = (key: string) => runRequest(STORE, 'readwrite', store => store.delete(key)).catch(() => undefined);
+
+const getErrorField = (error: unknown, field: 'status' | 'message' | 'retryAfterMs'): unknown =>
+  typeof error === 'object' && error !== null && field in error ? (error as Record<typeof field, unknown>)[field] : undefined;
+
+const isRetryable = (error: unknown) => {
+  const status = getErrorField(error, 'status');
+  if (typeof status === 'number') return status === 408 || status === 429 || status >= 500;
+  // fetch rejects with a TypeError when the network fails.
+  return error instanceof TypeError || /RESOURCE_EXHAUSTED|UNAVAILABLE|rate limit/i.test(String(getErrorField(error, 'message')));
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const finish = (key: string, url: string | null) => {
+  waiters.get(key)?.forEach(resolve => resolve(url));
+  waiters.delete(key);
+};
+
+const run = async (key: string, prompt: string, format: SlideFormat) => {
+  let rateLimitWaits = 0;
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    setJob(key, { status: 'generating', attempt });
+    try {
+      const url = await generateImage(prompt, format);
+      if (!url) {
+        setJob(key, { status: 'failed', error: localizedError('errorNoImageProvider'), attempt });
+        return finish(key, null);
+      }
+      await writeCache(key, url);
+      setJob(key, { status: 'done', url, attempt });
+      return finish(key, url);
+    } catch (error: unknown) {
+      const retryAfterMs = getErrorField(error, 'retryAfterMs');
+      if (getErrorField(error, 'status') === 429 && typeof retryAfterMs === 'number' && rateLimitWaits < MAX_RATE_LIMIT_WAITS) {
+        rateLimitWaits++;
+        await delay(retryAfterMs);
+        attempt--;
+        continue;
+      }
+      console.error(`Image generation failed (attempt ${attempt}):`, error);
+      if (attempt === MAX_ATTEMPTS || !isRetryable(error)) {
+        setJob(key, { status: 'failed', error, attempt });
+        return finish(key, null);
+      }
+      // 1s, 2s, 4s... plus jitter so parallel jobs do not retry in lockstep.
+      await delay(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1) * (1 + Math.random() * 0.5));
+    }
+  }
+};
+
+const pump = () => {
+  while (running < MAX_CONCURRENT_IMAGES && queue.length > 0) {
+    const { key, prompt, format } = queue.shift()!;
+    running++;
+    run(key, prompt, format).finally(() => {
+      running--;
+      pump();
+    });
+  }
+};
+
+/**
+ * Resolves to the image for the prompt: from memory, the persistent cache, or a new
+ * generation. Concurrent requests for the same prompt share one job. Resolves to null
+ * when generation failed; the job's `error` says why.
+ */
+export const requestImage = (prompt: string, format: SlideFormat): Promise<string | null> => {
+  const key = getImageKey(prompt, format);
+  const job = jobs.get(key);
+  if (job?.status === 'done') return Promise.resolve(job.url ?? null);
+  // Failed jobs only run again through retryImage.
+  if (job?.status === 'failed') return Promise.resolve(null);
+
+  return new Promise(resolve => {
+    const pending = waiters.get(key);
+    if (pending) {
+      pending.push(resolve);
+      return;
+    }
+    waiters.set(key, [resolve]);
+    setJob(key, { status: 'queued', attempt: 0 });
+    readCache(key).then(cached => {
+      if (cached) {
+        setJob(key, { status: 'done', url: cached, attempt: 0 });
+        finish(key, cached);
+      } else {
+        queue.push({ key, prompt, format });
+        pump();
+      }
+    });
+  });
+};
+
+/** Generates the prompt's image again, skipping the cache. */
+export const retryImage = async (prompt: string, format: SlideFormat): Promise<string | null> => {
+  const key = getImageKey(prompt, format);
+  if (waiters.has(key)) return requestImage(prompt, format);
+  jobs.delete(key);
+  await deleteCache(key);
+  return requestImage(prompt, format);
+};
@@ -0,0 +1,51 @@
+// Shared IndexedDB connection for everything the app keeps in the browser.
+// Each store is keyed by its records' `id`.
+
+const DB_NAME = 'carousel-generator';
+const DB_VERSION = 5;
+
+export type StoreName = 'projects' | 'brandKits' | 'images' | 'assets';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('projects')) {
+          db.createObjectStore('projects', { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains('brandKits')) {
+          db.createObjectStore('brandKits', { keyPath: 'id' });
+        }
+        // Cached images are evicted oldest first (version 5 added the index).
+        const images = db.objectStoreNames.contains('images')
+          ? request.transaction!.objectStore('images')
+          : db.createObjectStore('images', { keyPath: 'id' });
+        if (!images.indexNames.contains('createdAt')) images.createIndex('createdAt', 'createdAt');
+        if (!db.objectStoreNames.contains('assets')) {
+          db.createObjectStore('assets', { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const runRequest = async <T>(storeName: StoreName, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = fn(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const createId = () => crypto.randomUUID();
@@ -0,0 +1,158 @@
+import type { Carousel, Language, SlideFormat } from '../types';
+import { renderSlideToBlob, getSlideTextLines, getBackgroundKey, type PlacedTextLine } from './slideRenderer';
+
+// Multi-page PDF export for document carousels (LinkedIn) and client review.
+// A minimal PDF 1.4 writer: each page is one JPEG-encoded slide, optionally with the
+// phrase as invisible text on top so the document can be searched and copied from.
+
+// Slides are designed in CSS pixels; PDF pages are measured in points.
+const POINTS_PER_PIXEL = 0.75;
+
+export interface PdfPage {
+  // JPEG bytes of the rendered slide.
+  jpeg: Uint8Array;
+  width: number;
+  height: number;
+  text: PlacedTextLine[];
+}
+
+export interface PdfMetadata {
+  title: string;
+  subject?: string;
+  language?: Language;
+}
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: number[]) => bytes.map(b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+
+// Document info strings are UTF-16BE with a byte order mark, so accents survive.
+const textString = (value: string) => {
+  const bytes = [0xfe, 0xff];
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    bytes.push(code >> 8, code & 0xff);
+  }
+  return `<${toHex(bytes)}>`;
+};
+
+// The WinAnsi characters outside Latin-1; everything else in Latin-1 maps to itself.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89,
+  'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95,
+  '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+// Text shown with the standard Helvetica font; characters it cannot encode (emoji) are dropped.
+const winAnsiString = (value: string) => {
+  const bytes: number[] = [];
+  for (const char of value) {
+    const code = char.codePointAt(0)!;
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) bytes.push(code);
+    else if (WIN_ANSI_EXTRAS[char]) bytes.push(WIN_ANSI_EXTRAS[char]);
+  }
+  return bytes.length > 0 ? `<${toHex(bytes)}>` : null;
+};
+
+const pdfDate = (date: Date) =>
+  `D:${date.getUTCFullYear()}${[date.getUTCMonth() + 1, date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()]
+    .map(n => String(n).padStart(2, '0'))
+    .join('')}Z`;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// Invisible text (render mode 3) stretched over each line, so selections match the image.
+const textLayer = (lines: PlacedTextLine[], pageHeight: number) =>
+  lines.flatMap(line => {
+    const text = winAnsiString(line.text);
+    if (!text) return [];
+    const size = line.size * POINTS_PER_PIXEL;
+    // Helvetica averages about half an em per character.
+    const scale = (line.width * POINTS_PER_PIXEL) / (Array.from(line.text).length * size * 0.5) * 100;
+    const baseline = pageHeight - (line.y + line.size * 0.35) * POINTS_PER_PIXEL;
+    return [`BT 3 Tr /F1 ${round(size)} Tf ${round(scale)} Tz 1 0 0 1 ${round(line.x * POINTS_PER_PIXEL)} ${round(baseline)} Tm ${text} Tj ET`];
+  });
+
+/** Assembles the pages into a PDF document. */
+export const buildPdf = (pages: PdfPage[], metadata: PdfMetadata): Blob => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // Objects 1-4 are fixed; each page then takes three: page, contents and image.
+  const pageId = (index: number) => 5 + index * 3;
+  const objectCount = 4 + pages.length * 3;
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+  writeObject(1, `<< /Type /Catalog /Pages 2 0 R${metadata.language ? ` /Lang ${textString(metadata.language)}` : ''} >>`);
+  writeObject(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  writeObject(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  const info = [
+    `/Title ${textString(metadata.title)}`,
+    metadata.subject ? `/Subject ${textString(metadata.subject)}` : '',
+    `/Creator ${textString('Gerador de Carrosséis IA')}`,
+    `/CreationDate (${pdfDate(new Date())})`,
+  ].filter(Boolean);
+  writeObject(4, `<< ${info.join(' ')} >>`);
+
+  pages.forEach((page, i) => {
+    const id = pageId(i);
+    const width = round(page.width * POINTS_PER_PIXEL);
+    const height = round(page.height * POINTS_PER_PIXEL);
+    const content = encoder.encode([`q ${width} 0 0 ${height} 0 0 cm /Im1 Do Q`, ...textLayer(page.text, height)].join('\n'));
+    writeObject(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /Font << /F1 3 0 R >> /XObject << /Im1 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`);
+    writeObject(id + 1, `<< /Length ${content.length} >>`, content);
+    writeObject(id + 2, `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`, page.jpeg);
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+  return new Blob(chunks, { type: 'application/pdf' });
+};
+
+/** Renders every slide of the carousel and returns it as a PDF, one page per slide. `bgImages` is keyed by getBackgroundKey. */
+export const renderCarouselPdf = async (
+  carousel: Carousel,
+  language: Language,
+  format: SlideFormat,
+  bgImages: Record<string, HTMLImageElement | null>,
+  logo: HTMLImageElement | null,
+  options: { searchable: boolean },
+): Promise<Blob> => {
+  const pages: PdfPage[] = [];
+  for (const slide of carousel.slides) {
+    const blob = await renderSlideToBlob(slide, carousel, bgImages[getBackgroundKey(slide, carousel)] ?? null, format, logo, 'image/jpeg');
+    if (!blob) throw new Error(`Não foi possível renderizar o slide ${slide.ordem}.`);
+    pages.push({
+      jpeg: new Uint8Array(await blob.arrayBuffer()),
+      width: format.width,
+      height: format.height,
+      text: options.searchable ? getSlideTextLines(slide, carousel, format) : [],
+    });
+  }
+  return buildPdf(pages, {
+    title: carousel.nicho ? `${carousel.id} — ${carousel.nicho}` : carousel.id,
+    subject: carousel.nicho,
+    language,
+  });
+};
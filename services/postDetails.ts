@@ -0,0 +1,44 @@
+import type { Carousel } from '../types';
+import { stripEmphasis } from './emphasisMarkup';
+
+// Post copy that goes with a carousel: caption, hashtags, first comment and alt text.
+
+/** '#Tag' from any spelling of a hashtag; null when nothing usable is left. */
+export const normalizeHashtag = (tag: string): string | null => {
+  const body = tag.trim().replace(/^#+/, '').replace(/[^\p{L}\p{N}_]/gu, '');
+  return body ? `#${body}` : null;
+};
+
+/** Normalized hashtags without repeats (compared case-insensitively), in their original order. */
+export const normalizeHashtags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags.flatMap(tag => {
+    const normalized = normalizeHashtag(tag);
+    if (!normalized || seen.has(normalized.toLowerCase())) return [];
+    seen.add(normalized.toLowerCase());
+    return [normalized];
+  });
+};
+
+/** Hashtags typed by the user, separated by spaces, commas or line breaks. */
+export const parseHashtags = (text: string) => normalizeHashtags(text.split(/[\s,;]+/));
+
+/** The caption to paste when posting: the caption, then the hashtags. */
+export const getCaptionText = (carousel: Carousel) => {
+  const parts = [carousel.legenda?.trim(), carousel.hashtags?.join(' ')].filter(Boolean);
+  return parts.length > 0 ? `${parts.join('\n\n')}\n` : '';
+};
+
+/** The comment to pin under the post, posted separately from the caption; '' when there is none. */
+export const getFirstCommentText = (carousel: Carousel) => {
+  const comment = carousel.primeiro_comentario?.trim();
+  return comment ? `${comment}\n` : '';
+};
+
+/** Alt text per exported slide file, for `alt_text.json`. */
+export const getAltTexts = (carousel: Carousel) =>
+  carousel.slides.map(slide => ({
+    arquivo: `slide_${slide.ordem}.png`,
+    ordem: slide.ordem,
+    texto_alternativo: slide.texto_alternativo?.trim() || stripEmphasis(slide.frase),
+  }));
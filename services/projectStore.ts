@@ -0,0 +1,79 @@
+import type { Project } from '../types';
+import { runRequest, createId } from './localDb';
+import { migrateCarouselStyle, migrateInputStyle } from './styleOptions';
+import { isObject } from './responseValidator';
+import { localizedError } from '../locales';
+
+// Projects live in the browser's IndexedDB so generations, edits and generated
+// images survive page reloads.
+
+const STORE = 'projects';
+const LIBRARY_FORMAT = 'carousel-generator-library';
+const LIBRARY_VERSION = 1;
+
+export const createProjectId = createId;
+
+// Older projects stored style labels instead of ids; they are converted as they are read.
+const migrateProject = (project: Project): Project => ({
+  ...project,
+  input: migrateInputStyle(project.input),
+  response: { ...project.response, carrosseis: project.response.carrosseis.map(migrateCarouselStyle) },
+});
+
+/** All projects, most recently updated first. */
+export const listProjects = async (): Promise<Project[]> => {
+  const projects = await runRequest<Project[]>(STORE, 'readonly', store => store.getAll());
+  return projects.map(migrateProject).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<Project | undefined> => {
+  const project = await runRequest<Project | undefined>(STORE, 'readonly', store => store.get(id));
+  return project && migrateProject(project);
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  await runRequest(STORE, 'readwrite', store => store.put(project));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await runRequest(STORE, 'readwrite', store => store.delete(id));
+};
+
+export const duplicateProject = async (project: Project, name: string): Promise<Project> => {
+  const now = Date.now();
+  const copy: Project = { ...project, id: createProjectId(), name, createdAt: now, updatedAt: now };
+  await saveProject(copy);
+  return copy;
+};
+
+/** Serializes the whole library, images included, into one JSON blob. */
+export const exportLibrary = async (): Promise<Blob> => {
+  const projects = await listProjects();
+  const payload = { format: LIBRARY_FORMAT, version: LIBRARY_VERSION, exportedAt: new Date().toISOString(), projects };
+  return new Blob([JSON.stringify(payload)], { type: 'application/json' });
+};
+
+// Enough of a project to open it; the rest is filled in by migrateProject.
+const isStoredProject = (value: unknown): value is Project =>
+  isObject(value) && typeof value.id === 'string' && isObject(value.response) && Array.isArray(value.response.carrosseis);
+
+/**
+ * Adds the projects from an exported library file. Projects whose id already
+ * exists are replaced. Returns how many projects were imported.
+ */
+export const importLibrary = async (text: string): Promise<number> => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw localizedError('errorInvalidLibrary');
+  }
+  if (!isObject(payload) || payload.format !== LIBRARY_FORMAT || !Array.isArray(payload.projects)) {
+    throw localizedError('errorInvalidLibrary');
+  }
+  const projects = payload.projects.filter(isStoredProject);
+  for (const project of projects) {
+    await saveProject(migrateProject({ ...project, images: project.images ?? {} }));
+  }
+  return projects.length;
+};
@@ -0,0 +1,353 @@
+import type { ApiResponse, Carousel, CoverHook, CsvCarouselsMap, CSVGenerationParams, CtaTypeId, IAGenerationParams, Language, Slide, SlideFormat, SlideLayout } from '../../types';
+import type { GenerationProvider, GenerationTask } from './types';
+import { HASHTAGS_RANGE, STYLE_OPTIONS } from '../../constants';
+import { createTranslator } from '../../locales';
+import { getPromptStyleLabel, getStyleLabel } from '../styleOptions';
+import { stripEmphasis } from '../emphasisMarkup';
+import { getActiveHookIndex } from '../coverHooks';
+
+// Offline provider: builds deterministic answers from the structured task so the
+// app can be demoed and exercised without network access or API keys.
+
+interface CannedPhrases {
+  capa: ((niche: string) => string)[];
+  // The strategy of each cover above, for A/B hooks.
+  motivos: string[];
+  conteudo: string[];
+  cta: (ctaType: string) => string;
+  fechamento: string;
+  legenda: (niche: string) => string;
+  comentario: string;
+  hashtags: string[];
+  altText: (ordem: number, frase: string) => string;
+}
+
+const PHRASES: Record<Language, CannedPhrases> = {
+  pt: {
+    capa: [
+      niche => `O que **ninguém** te conta sobre ==${niche}==`,
+      niche => `${niche}: o guia que faltava`,
+      niche => `5 verdades sobre ${niche} que mudam tudo`,
+      niche => `Pare de errar em ${niche}`,
+    ],
+    motivos: ['curiosidade', 'promessa', 'números', 'dor'],
+    conteudo: [
+      'Comece pequeno, mas comece hoje.',
+      '**Consistência** vence __intensidade__.',
+      'Cada erro é um dado, não um fracasso.',
+      'Foque no processo, o resultado vem.',
+      'Quem se compara, se paralisa.',
+    ],
+    cta: ctaType => `Gostou? ${ctaType}!`,
+    fechamento: 'Você está mais perto do que imagina.',
+    legenda: niche => `Tudo o que você precisa saber sobre ${niche} em poucos slides ✨\n\nArraste para o lado e salve para consultar depois 📌`,
+    comentario: 'Qual slide fez mais sentido para você? Conta aqui 👇',
+    hashtags: ['dicas', 'conteudo', 'aprendizado', 'motivacao', 'crescimento', 'foco', 'habitos', 'produtividade', 'inspiracao', 'carrossel'],
+    altText: (ordem, frase) => `Slide ${ordem} com o texto "${frase}"`,
+  },
+  en: {
+    capa: [
+      niche => `What **nobody** tells you about ==${niche}==`,
+      niche => `${niche}: the guide you were missing`,
+      niche => `5 truths about ${niche} that change everything`,
+      niche => `Stop getting ${niche} wrong`,
+    ],
+    motivos: ['curiosity', 'promise', 'numbers', 'pain point'],
+    conteudo: [
+      'Start small, but start today.',
+      '**Consistency** beats __intensity__.',
+      'Every mistake is data, not failure.',
+      'Focus on the process, results follow.',
+      'Comparison leads to paralysis.',
+    ],
+    cta: ctaType => `Liked it? ${ctaType}!`,
+    fechamento: 'You are closer than you think.',
+    legenda: niche => `Everything you need to know about ${niche} in a few slides ✨\n\nSwipe through and save it for later 📌`,
+    comentario: 'Which slide hit home for you? Tell me below 👇',
+    hashtags: ['tips', 'content', 'learning', 'motivation', 'growth', 'focus', 'habits', 'productivity', 'inspiration', 'carousel'],
+    altText: (ordem, frase) => `Slide ${ordem} with the text "${frase}"`,
+  },
+  es: {
+    capa: [
+      niche => `Lo que **nadie** te cuenta sobre ==${niche}==`,
+      niche => `${niche}: la guía que faltaba`,
+      niche => `5 verdades sobre ${niche} que lo cambian todo`,
+      niche => `Deja de equivocarte en ${niche}`,
+    ],
+    motivos: ['curiosidad', 'promesa', 'números', 'dolor'],
+    conteudo: [
+      'Empieza pequeño, pero empieza hoy.',
+      'La **constancia** vence a la __intensidad__.',
+      'Cada error es un dato, no un fracaso.',
+      'Enfócate en el proceso, el resultado llega.',
+      'Quien se compara, se paraliza.',
+    ],
+    cta: ctaType => `¿Te gustó? ¡${ctaType}!`,
+    fechamento: 'Estás más cerca de lo que imaginas.',
+    legenda: niche => `Todo lo que necesitas saber sobre ${niche} en pocas diapositivas ✨\n\nDesliza y guárdalo para después 📌`,
+    comentario: '¿Qué diapositiva te sirvió más? Cuéntamelo aquí 👇',
+    hashtags: ['consejos', 'contenido', 'aprendizaje', 'motivacion', 'crecimiento', 'enfoque', 'habitos', 'productividad', 'inspiracion', 'carrusel'],
+    altText: (ordem, frase) => `Diapositiva ${ordem} con el texto "${frase}"`,
+  },
+};
+
+// Canned phrases exist for a few languages; others (fr, de...) get the Portuguese ones.
+const getPhrases = (language: Language) => PHRASES[language] ?? PHRASES[language.split('-')[0]] ?? PHRASES.pt;
+
+const buildLayout = (tipo: Slide['tipo'], frase: string): SlideLayout => {
+  const words = stripEmphasis(frase).split(/\s+/).filter(Boolean);
+  const longest = [...words].sort((a, b) => b.length - a.length)[0]?.replace(/[^\p{L}\p{N}]/gu, '');
+  return {
+    alinhamento: tipo === 'conteudo' ? 'esquerda' : 'centro',
+    posicao_vertical: tipo === 'cta' ? 'base' : 'centro',
+    // Covers get the first half of the phrase as a title when it is long enough to split.
+    palavras_titulo: tipo === 'capa' && words.length >= 6 ? Math.floor(words.length / 2) : 0,
+    palavras_destaque: longest ? [longest] : [],
+    opacidade_overlay: 0.5,
+    margem: tipo === 'conteudo' ? 0.1 : 0.075,
+  };
+};
+
+// The niche as a hashtag first, then canned ones, up to `count`.
+const buildHashtags = (niche: string | undefined, language: string, count: number) =>
+  [niche ? `#${niche.replace(/[^\p{L}\p{N}]/gu, '')}` : '', ...getPhrases(language).hashtags.map(tag => `#${tag}`)]
+    .filter(tag => tag.length > 1)
+    .slice(0, count);
+
+const buildPost = (niche: string | undefined, language: string, hashtagsCount: number) => {
+  const phrases = getPhrases(language);
+  return {
+    legenda: phrases.legenda(niche ?? ''),
+    hashtags: buildHashtags(niche, language, hashtagsCount),
+    primeiro_comentario: phrases.comentario,
+  };
+};
+
+const withAltTexts = (slides: Slide[], language: string): Slide[] =>
+  slides.map(slide => ({ ...slide, texto_alternativo: getPhrases(language).altText(slide.ordem, stripEmphasis(slide.frase)) }));
+
+// The CTA is written with the option's label in the phrase language.
+const buildCtaPhrase = (language: Language, ctaType: CtaTypeId | undefined) =>
+  getPhrases(language).cta(ctaType ? getStyleLabel(createTranslator(language), 'ctaType', ctaType) : '');
+
+const buildSlide = (ordem: number, tipo: Slide['tipo'], frase: string, style: string): Slide => ({
+  ordem,
+  tipo,
+  frase,
+  instrucoes_layout: tipo === 'capa'
+    ? 'Texto centralizado em destaque, fonte grande.'
+    : tipo === 'cta'
+      ? 'Texto centralizado na parte de baixo.'
+      : 'Texto alinhado à esquerda com margens generosas.',
+  layout: buildLayout(tipo, frase),
+  prompt_imagem: `${style}, slide ${ordem}, sem texto`,
+});
+
+// `variant` shifts which canned phrases are used, so regenerations come out different.
+const buildIACarousel = (params: IAGenerationParams, index: number, variant = 0): Carousel => {
+  const phrases = getPhrases(params.phrasesLanguage);
+  const style = `${getPromptStyleLabel('background', params.backgroundStyle)}, ${getPromptStyleLabel('palette', params.colorPalette)}, ${params.niche}`;
+  return {
+    id: `carrossel_${index + 1}`,
+    nicho: params.niche,
+    contexto: params.context,
+    estilo_fundo: params.backgroundStyle,
+    paleta_cores: params.colorPalette,
+    tipografia: params.typography,
+    cta_no_ultimo_slide: params.cta,
+    cta_tipo: params.cta ? params.ctaType : undefined,
+    ...buildPost(params.niche, params.phrasesLanguage, params.hashtagsCount),
+    slides: withAltTexts(Array.from({ length: params.slidesCount }, (_, s) => {
+      const ordem = s + 1;
+      if (s === 0) {
+        const hooks = Array.from({ length: params.hooksCount ?? 1 }, (_, h) => (variant + h) % phrases.capa.length)
+          .map(c => ({ frase: phrases.capa[c](params.niche), motivo: phrases.motivos[c] }));
+        const capa = buildSlide(ordem, 'capa', hooks[0].frase, style);
+        return hooks.length > 1 ? { ...capa, ganchos: hooks } : capa;
+      }
+      if (s === params.slidesCount - 1) {
+        return params.cta
+          ? buildSlide(ordem, 'cta', buildCtaPhrase(params.phrasesLanguage, params.ctaType), style)
+          : buildSlide(ordem, 'conteudo', phrases.fechamento, style);
+      }
+      return buildSlide(ordem, 'conteudo', phrases.conteudo[(index + s - 1 + variant * 2) % phrases.conteudo.length], style);
+    }), params.phrasesLanguage),
+  };
+};
+
+const buildCSVResponse = (carousels: CsvCarouselsMap, params: CSVGenerationParams): ApiResponse => {
+  const carrosseis: Carousel[] = Object.entries(carousels).map(([id, spec]) => {
+    const backgroundStyle = spec.estilo_fundo ?? params.backgroundStyle;
+    const colorPalette = spec.paleta_cores ?? params.colorPalette;
+    const style = `${getPromptStyleLabel('background', backgroundStyle)}, ${getPromptStyleLabel('palette', colorPalette)}`;
+    const slides = spec.slides.map((row, index) => {
+      const slide = buildSlide(index + 1, row.tipo ?? (index === 0 ? 'capa' : 'conteudo'), row.frase, style);
+      return row.prompt_imagem ? { ...slide, prompt_imagem: row.prompt_imagem } : slide;
+    });
+    const ctaType = params.cta ? spec.cta_tipo ?? params.ctaType : undefined;
+    if (params.cta) {
+      slides.push(buildSlide(slides.length + 1, 'cta', buildCtaPhrase(params.language, ctaType), style));
+    }
+    return {
+      id,
+      nicho: spec.nicho,
+      estilo_fundo: backgroundStyle,
+      paleta_cores: colorPalette,
+      tipografia: spec.tipografia ?? params.typography,
+      cta_no_ultimo_slide: params.cta,
+      cta_tipo: ctaType,
+      ...buildPost(spec.nicho, params.language, params.hashtagsCount),
+      slides: withAltTexts(slides, params.language),
+    };
+  });
+  return { mode: 'csv', language: params.language, carrosseis };
+};
+
+// Canned phrases for a slide, excluding its current text.
+const getAlternativePhrases = (slide: Slide, niche: string, language: Language) => {
+  const phrases = getPhrases(language);
+  const pool = slide.tipo === 'capa'
+    ? phrases.capa.map(capa => capa(niche))
+    : [...phrases.conteudo, phrases.fechamento];
+  return pool.filter(phrase => phrase !== slide.frase);
+};
+
+// Canned phrases line up across languages, so a known phrase is translated by its
+// position; any other phrase is only tagged with the target language.
+const translatePhrase = (frase: string, tipo: Slide['tipo'], carousel: Carousel, from: Language, language: Language) => {
+  if (tipo === 'cta' && carousel.cta_tipo) return buildCtaPhrase(language, carousel.cta_tipo);
+  const source = getPhrases(from);
+  const target = getPhrases(language);
+  const niche = carousel.nicho ?? '';
+  const capa = source.capa.findIndex(capa => capa(niche) === frase);
+  if (capa >= 0) return target.capa[capa](niche);
+  const conteudo = source.conteudo.indexOf(frase);
+  if (conteudo >= 0) return target.conteudo[conteudo];
+  if (frase === source.fechamento) return target.fechamento;
+  return `[${language}] ${frase}`;
+};
+
+const translateHook = (hook: CoverHook, carousel: Carousel, from: Language, language: Language): CoverHook => {
+  const motivo = getPhrases(from).motivos.indexOf(hook.motivo);
+  return {
+    frase: translatePhrase(hook.frase, 'capa', carousel, from, language),
+    motivo: motivo >= 0 ? getPhrases(language).motivos[motivo] : hook.motivo,
+  };
+};
+
+const buildAnswer = (task: GenerationTask): unknown => {
+  switch (task.kind) {
+    case 'ia': {
+      const { params } = task;
+      const carrosseis = Array.from({ length: params.carouselsCount }, (_, c) => buildIACarousel(params, c));
+      return { mode: 'ia', language: params.phrasesLanguage, carrosseis };
+    }
+    case 'csv':
+      return buildCSVResponse(task.carousels, task.params);
+    case 'rewriteSlide': {
+      const slide = task.carousel.slides[task.slideIndex];
+      const [frase = slide.frase] = getAlternativePhrases(slide, task.carousel.nicho ?? '', task.language)
+        .filter(phrase => !slide.ganchos?.some(hook => hook.frase === phrase));
+      // The new phrase takes the place of the hook the cover showed.
+      const active = Math.max(getActiveHookIndex(slide), 0);
+      const ganchos = slide.ganchos?.map((hook, i) => (i === active ? { ...hook, frase } : hook));
+      const [rewritten] = withAltTexts([{ ...slide, frase, layout: buildLayout(slide.tipo, frase), ganchos }], task.language);
+      return rewritten;
+    }
+    case 'alternatives': {
+      const slide = task.carousel.slides[task.slideIndex];
+      const pool = getAlternativePhrases(slide, task.carousel.nicho ?? '', task.language);
+      const alternativas = Array.from({ length: task.count }, (_, i) => pool[i] ?? `${slide.frase} (${i + 1})`);
+      return { alternativas };
+    }
+    case 'regenerateCarousel': {
+      const { carousel, language } = task;
+      const slidesCount = carousel.slides.length;
+      const cta = carousel.cta_no_ultimo_slide ?? carousel.slides[slidesCount - 1]?.tipo === 'cta';
+      const regenerated = buildIACarousel({
+        niche: carousel.nicho ?? '',
+        context: carousel.contexto ?? '',
+        tone: '',
+        slidesCount,
+        carouselsCount: 1,
+        backgroundStyle: carousel.estilo_fundo ?? STYLE_OPTIONS.background[0],
+        colorPalette: carousel.paleta_cores ?? STYLE_OPTIONS.palette[0],
+        typography: carousel.tipografia ?? STYLE_OPTIONS.typography[0],
+        hooksCount: carousel.slides.find(slide => slide.tipo === 'capa')?.ganchos?.length,
+        phrasesLanguage: language,
+        cta,
+        ctaType: carousel.cta_tipo ?? STYLE_OPTIONS.ctaType[0],
+        format: carousel.formato ?? 'square',
+        hashtagsCount: carousel.hashtags?.length ?? HASHTAGS_RANGE.default,
+      }, 0, 1);
+      // Older carousels have no CTA type, so reuse their current closing phrase.
+      const slides = regenerated.slides.map((slide, i) => {
+        if (i !== slidesCount - 1 || !cta || carousel.cta_tipo) return slide;
+        const frase = carousel.slides[i].frase;
+        return { ...slide, frase, layout: buildLayout(slide.tipo, frase), texto_alternativo: carousel.slides[i].texto_alternativo };
+      });
+      return { mode: 'ia', language, carrosseis: [{ ...regenerated, id: carousel.id, slides }] };
+    }
+    case 'translateCarousel': {
+      const { carousel, from, language } = task;
+      return {
+        ...buildPost(carousel.nicho, language, carousel.hashtags?.length ?? 0),
+        slides: carousel.slides.map(slide => {
+          const frase = translatePhrase(slide.frase, slide.tipo, carousel, from, language);
+          const { palavras_titulo, palavras_destaque } = buildLayout(slide.tipo, frase);
+          const texto_alternativo = getPhrases(language).altText(slide.ordem, stripEmphasis(frase));
+          const ganchos = slide.ganchos?.map(hook => translateHook(hook, carousel, from, language));
+          return { ordem: slide.ordem, frase, palavras_titulo, palavras_destaque, texto_alternativo, ganchos };
+        }),
+      };
+    }
+  }
+};
+
+const STREAM_CHUNK_SIZE = 160;
+const STREAM_CHUNK_DELAY_MS = 25;
+
+const hashString = (value: string) => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+// Hex rather than hsl(): not every SVG renderer outside the browser reads hsl() colors.
+const hslToHex = (hue: number, saturation: number, lightness: number) => {
+  const a = saturation * Math.min(lightness, 1 - lightness);
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const value = lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+};
+
+export const fixtureProvider: GenerationProvider = {
+  id: 'fixture',
+  label: 'Offline (fixture)',
+
+  generateText: async ({ task, onText, signal }) => {
+    const text = JSON.stringify(buildAnswer(task));
+    if (!onText) return text;
+    // Trickle the answer out in chunks so streaming can be exercised offline.
+    for (let end = STREAM_CHUNK_SIZE; ; end += STREAM_CHUNK_SIZE) {
+      await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+      signal?.throwIfAborted();
+      onText(text.slice(0, end));
+      if (end >= text.length) return text;
+    }
+  },
+
+  generateImage: async (prompt: string, format?: SlideFormat) => {
+    const hue = hashString(prompt) % 360;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${format?.width ?? 1080}" height="${format?.height ?? 1080}">`
+      + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">`
+      + `<stop offset="0" stop-color="${hslToHex(hue, 0.6, 0.45)}"/><stop offset="1" stop-color="${hslToHex((hue + 60) % 360, 0.6, 0.25)}"/>`
+      + `</linearGradient></defs><rect width="100%" height="100%" fill="url(#g)"/></svg>`;
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  },
+};
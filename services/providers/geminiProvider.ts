@@ -0,0 +1,72 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { SlideFormat } from '../../types';
+import type { GenerationProvider, TextGenerationRequest } from './types';
+
+const textModel = process.env.GEMINI_MODEL || "gemini-2.5-flash";
+const imageModel = process.env.GEMINI_IMAGE_MODEL || "gemini-2.5-flash-image";
+
+let client: GoogleGenAI | null = null;
+
+// The client is created on first use so that a missing key only breaks the
+// Gemini provider instead of the whole app.
+const getClient = () => {
+  if (!client) {
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("API_KEY environment variable not set");
+    }
+    client = new GoogleGenAI({ apiKey });
+  }
+  return client;
+};
+
+export const isGeminiConfigured = () => Boolean(process.env.API_KEY);
+
+export const geminiProvider: GenerationProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+
+  generateText: async ({ systemInstruction, prompt, responseSchema, onText, signal }: TextGenerationRequest) => {
+    const params = {
+      model: textModel,
+      contents: prompt,
+      config: {
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema,
+        abortSignal: signal,
+      },
+    };
+    if (!onText) {
+      const response = await getClient().models.generateContent(params);
+      return response.text ?? '';
+    }
+    let text = '';
+    for await (const chunk of await getClient().models.generateContentStream(params)) {
+      text += chunk.text ?? '';
+      onText(text);
+    }
+    return text;
+  },
+
+  // Errors propagate with the SDK's HTTP `status`, so the image queue can decide to retry.
+  generateImage: async (prompt: string, format?: SlideFormat) => {
+    const response = await getClient().models.generateContent({
+      model: imageModel,
+      contents: {
+        parts: [{ text: prompt }],
+      },
+      config: {
+        responseModalities: [Modality.IMAGE],
+        ...(format ? { imageConfig: { aspectRatio: format.imageAspectRatio } } : {}),
+      },
+    });
+    for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+      if (part.inlineData) {
+        const base64ImageBytes = part.inlineData.data;
+        return `data:image/png;base64,${base64ImageBytes}`;
+      }
+    }
+    throw new Error('O modelo não retornou nenhuma imagem.');
+  },
+};
@@ -0,0 +1,42 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { fixtureProvider } from './fixtureProvider';
+import { geminiProvider, isGeminiConfigured } from './geminiProvider';
+import { openAiCompatibleProvider } from './openAiCompatibleProvider';
+import type { GenerationProvider, ProviderId } from './types';
+
+export type { GenerationProvider, GenerationTask, ProviderId, TextGenerationRequest } from './types';
+
+export const PROVIDERS: Record<ProviderId, GenerationProvider> = {
+  gemini: geminiProvider,
+  openai: openAiCompatibleProvider,
+  fixture: fixtureProvider,
+};
+
+export const isProviderId = (value: string | undefined): value is ProviderId =>
+  !!value && Object.prototype.hasOwnProperty.call(PROVIDERS, value);
+
+// AI_PROVIDER wins; otherwise use Gemini when a key is available and fall back to the offline fixtures.
+export const getDefaultProviderId = (): ProviderId => {
+  const fromEnv = process.env.AI_PROVIDER;
+  if (isProviderId(fromEnv)) return fromEnv;
+  return isGeminiConfigured() ? 'gemini' : 'fixture';
+};
+
+/** Whether the provider has the key it needs; the others run without one. */
+export const isProviderConfigured = (id: ProviderId) => id !== 'gemini' || isGeminiConfigured();
+
+let activeProviderId: ProviderId = getDefaultProviderId();
+
+export const getActiveProviderId = () => activeProviderId;
+
+export const setActiveProviderId = (id: ProviderId) => {
+  activeProviderId = id;
+};
+
+// The backend serves requests for different providers at once: each runs inside
+// runWithProvider, and everything it calls uses that provider.
+const requestProvider = new AsyncLocalStorage<ProviderId>();
+
+export const runWithProvider = <T>(id: ProviderId, run: () => T): T => requestProvider.run(id, run);
+
+export const getActiveProvider = (): GenerationProvider => PROVIDERS[requestProvider.getStore() ?? activeProviderId];
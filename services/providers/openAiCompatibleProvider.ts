@@ -0,0 +1,106 @@
+import type { Schema } from "@google/genai";
+import type { GenerationProvider, TextGenerationRequest } from './types';
+
+// Defaults target a local Ollama server; llama.cpp's server exposes the same
+// routes, usually on http://localhost:8080/v1.
+const baseUrl = (process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, '');
+const apiKey = process.env.OPENAI_API_KEY || '';
+const textModel = process.env.OPENAI_MODEL || 'llama3.1';
+const imageModel = process.env.OPENAI_IMAGE_MODEL || '';
+
+const getHeaders = () => ({
+  'Content-Type': 'application/json',
+  ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+});
+
+// Converts the Gemini-flavoured schema (upper-case types, `nullable`) into
+// plain JSON Schema for `response_format`.
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const type = schema.type ? schema.type.toLowerCase() : undefined;
+  const result: Record<string, unknown> = {};
+  if (type) {
+    result.type = schema.nullable ? [type, 'null'] : type;
+  }
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) result.required = schema.required;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  return result;
+};
+
+// Reads a `stream: true` chat completion: server-sent events, each carrying a content delta.
+const readStream = async (response: Response, onText: (text: string) => void) => {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+      const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(text);
+      }
+    }
+  }
+  return text;
+};
+
+export const openAiCompatibleProvider: GenerationProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible (Ollama, llama.cpp)',
+
+  generateText: async ({ systemInstruction, prompt, responseSchema, onText, signal }: TextGenerationRequest) => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: getHeaders(),
+      signal,
+      body: JSON.stringify({
+        model: textModel,
+        messages: [
+          { role: 'system', content: systemInstruction },
+          { role: 'user', content: prompt },
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'carousel_response', schema: toJsonSchema(responseSchema) },
+        },
+        stream: Boolean(onText),
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible server returned ${response.status}: ${await response.text()}`);
+    }
+    if (onText) return readStream(response, onText);
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content ?? '';
+  },
+
+  generateImage: async (prompt: string) => {
+    // Most local servers cannot generate images; skip the call unless a model is configured.
+    if (!imageModel) return null;
+    const response = await fetch(`${baseUrl}/images/generations`, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({ model: imageModel, prompt, n: 1, response_format: 'b64_json' }),
+    });
+    if (!response.ok) {
+      throw Object.assign(new Error(`OpenAI-compatible server returned ${response.status}`), { status: response.status });
+    }
+    const data = await response.json();
+    const base64ImageBytes: string | undefined = data.data?.[0]?.b64_json;
+    if (!base64ImageBytes) throw new Error('O servidor não retornou nenhuma imagem.');
+    return `data:image/png;base64,${base64ImageBytes}`;
+  },
+};
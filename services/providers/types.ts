@@ -0,0 +1,34 @@
+import type { Schema } from "@google/genai";
+import type { Carousel, CsvCarouselsMap, CSVGenerationParams, IAGenerationParams, Language, SlideFormat } from '../../types';
+import type { LintIssue } from '../contentLint';
+
+export type ProviderId = 'gemini' | 'openai' | 'fixture';
+
+// Structured description of what a prompt asks for. Real models only read the
+// prompt; the fixture provider uses this to build a deterministic answer.
+export type GenerationTask =
+  | { kind: 'ia'; params: IAGenerationParams }
+  | { kind: 'csv'; carousels: CsvCarouselsMap; params: CSVGenerationParams }
+  | { kind: 'rewriteSlide'; carousel: Carousel; slideIndex: number; language: Language; issues?: LintIssue[] }
+  | { kind: 'regenerateCarousel'; carousel: Carousel; language: Language }
+  | { kind: 'alternatives'; carousel: Carousel; slideIndex: number; language: Language; count: number }
+  | { kind: 'translateCarousel'; carousel: Carousel; from: Language; language: Language };
+
+export interface TextGenerationRequest {
+  systemInstruction: string;
+  prompt: string;
+  responseSchema: Schema;
+  task: GenerationTask;
+  // When set, the response is streamed and this is called with all the text received so far.
+  onText?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface GenerationProvider {
+  id: ProviderId;
+  label: string;
+  generateText: (request: TextGenerationRequest) => Promise<string>;
+  // Resolves to null when the provider cannot generate images at all; failed calls
+  // reject, with the HTTP status as `status` when the server answered.
+  generateImage: (prompt: string, format?: SlideFormat) => Promise<string | null>;
+}
@@ -0,0 +1,415 @@
+import type { ApiResponse, Carousel, CoverHook, GenerationMode, Language, Slide, SlideLayout } from '../types';
+import { DEFAULT_SLIDE_LAYOUT, LAYOUT_MARGIN_RANGE } from '../constants';
+import { stripEmphasis } from './emphasisMarkup';
+import { normalizeHashtags } from './postDetails';
+import { findStyleId } from './styleOptions';
+import { getActiveHookIndex } from './coverHooks';
+
+const SLIDE_TYPES: Slide['tipo'][] = ['capa', 'conteudo', 'cta'];
+const ALIGNMENTS: SlideLayout['alinhamento'][] = ['esquerda', 'centro', 'direita'];
+const VERTICAL_POSITIONS: SlideLayout['posicao_vertical'][] = ['topo', 'centro', 'base'];
+
+export interface ResponseExpectations {
+  mode: GenerationMode;
+  language: Language;
+  carouselsCount?: number;
+  // Exact number of slides every carousel must have (IA mode).
+  slidesCount?: number;
+  // Expected slides per carousel id (CSV mode); ids are also required to be present.
+  carouselSlideCounts?: Record<string, number>;
+  ctaOnLastSlide?: boolean;
+  // Hashtags kept per carousel; extra ones are dropped.
+  hashtagsCount?: number;
+  // Hooks every cover must carry (IA mode); covers get none when this is unset or 1.
+  hooksCount?: number;
+}
+
+export interface ValidationResult<T = ApiResponse> {
+  // Normalized response, or null when at least one problem could not be fixed.
+  response: T | null;
+  errors: string[];
+  fixes: string[];
+}
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+// Post copy is optional: blanks become undefined instead of errors.
+const optionalText = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+const normalizeCarouselHashtags = (raw: unknown, label: string, expectedCount: number | undefined, fixes: string[]) => {
+  if (raw === undefined || raw === null) return undefined;
+  const candidates = Array.isArray(raw) ? raw.filter((tag): tag is string => typeof tag === 'string') : typeof raw === 'string' ? raw.split(/[\s,]+/) : [];
+  let hashtags = normalizeHashtags(candidates);
+  if (!Array.isArray(raw) || hashtags.length !== candidates.length || hashtags.some((tag, i) => tag !== candidates[i])) {
+    fixes.push(`${label}: hashtags normalizadas.`);
+  }
+  if (expectedCount !== undefined && hashtags.length > expectedCount) {
+    hashtags = hashtags.slice(0, expectedCount);
+    fixes.push(`${label}: hashtags excedentes removidas (esperado ${expectedCount}).`);
+  }
+  return hashtags;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Normalizes the model's layout object for a slide. Unknown enum values fall back to
+ * the defaults and numbers are clamped; a missing layout stays missing.
+ */
+const normalizeLayout = (raw: unknown, frase: string, label: string, fixes: string[]): SlideLayout | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  const layout = isObject(raw) ? raw : {};
+  const adjusted: string[] = [];
+
+  const pick = <T extends string>(value: unknown, allowed: T[], fallback: T, field: string): T => {
+    const normalized = typeof value === 'string' ? value.trim().toLowerCase() : '';
+    if (allowed.includes(normalized as T)) return normalized as T;
+    adjusted.push(field);
+    return fallback;
+  };
+  const number = (value: unknown, min: number, max: number, fallback: number, field: string) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      adjusted.push(field);
+      return fallback;
+    }
+    const clamped = clamp(value, min, max);
+    if (clamped !== value) adjusted.push(field);
+    return clamped;
+  };
+
+  const wordCount = stripEmphasis(frase).split(/\s+/).filter(Boolean).length;
+  // A title that swallows the whole phrase leaves no body; treat it as no split.
+  let palavras_titulo = Math.round(number(layout.palavras_titulo, 0, wordCount, 0, 'palavras_titulo'));
+  if (palavras_titulo >= wordCount) palavras_titulo = 0;
+
+  const destaque = Array.isArray(layout.palavras_destaque) ? layout.palavras_destaque : [];
+  if (!Array.isArray(layout.palavras_destaque)) adjusted.push('palavras_destaque');
+
+  const result: SlideLayout = {
+    alinhamento: pick(layout.alinhamento, ALIGNMENTS, DEFAULT_SLIDE_LAYOUT.alinhamento, 'alinhamento'),
+    posicao_vertical: pick(layout.posicao_vertical, VERTICAL_POSITIONS, DEFAULT_SLIDE_LAYOUT.posicao_vertical, 'posicao_vertical'),
+    palavras_titulo,
+    palavras_destaque: destaque.filter((word): word is string => typeof word === 'string' && word.trim() !== '').map(word => word.trim()),
+    opacidade_overlay: number(layout.opacidade_overlay, 0, 1, DEFAULT_SLIDE_LAYOUT.opacidade_overlay, 'opacidade_overlay'),
+    margem: number(layout.margem, LAYOUT_MARGIN_RANGE.min, LAYOUT_MARGIN_RANGE.max, 0.075, 'margem'),
+  };
+  if (adjusted.length > 0) {
+    fixes.push(`${label}: layout ajustado (${adjusted.join(', ')}).`);
+  }
+  return result;
+};
+
+// Hooks with a phrase, without repeats (compared case-insensitively).
+const parseHooks = (raw: unknown): CoverHook[] => {
+  const seen = new Set<string>();
+  return (Array.isArray(raw) ? raw : []).flatMap(item => {
+    const hook = isObject(item) ? item : {};
+    const frase = typeof hook.frase === 'string' ? hook.frase.trim() : '';
+    if (!frase || seen.has(frase.toLowerCase())) return [];
+    seen.add(frase.toLowerCase());
+    return [{ frase, motivo: optionalText(hook.motivo) ?? '' }];
+  });
+};
+
+/**
+ * The hooks of a generated cover: the cover's own phrase is always one of them, and there
+ * must be `expectedCount`. Hooks that were not asked for are dropped.
+ */
+const normalizeHooks = (raw: unknown, frase: string, label: string, expectedCount: number | undefined, errors: string[], fixes: string[]) => {
+  if (!expectedCount || expectedCount < 2) return undefined;
+  let hooks = parseHooks(raw);
+  if (Array.isArray(raw) && hooks.length < raw.length) {
+    fixes.push(`${label}: ganchos vazios ou repetidos removidos.`);
+  }
+  if (!hooks.some(hook => hook.frase === frase)) {
+    hooks = [{ frase, motivo: '' }, ...hooks];
+    fixes.push(`${label}: a 'frase' da capa incluída como gancho A.`);
+  }
+  if (hooks.length > expectedCount) {
+    // Never drop the hook the cover shows.
+    const kept = hooks.filter(hook => hook.frase !== frase).slice(0, expectedCount - 1);
+    hooks = hooks.filter(hook => hook.frase === frase || kept.includes(hook));
+    fixes.push(`${label}: ganchos excedentes removidos (esperado ${expectedCount}).`);
+  } else if (hooks.length < expectedCount) {
+    errors.push(`${label}: ${hooks.length} gancho(s) distinto(s) recebido(s), esperado ${expectedCount}.`);
+  }
+  return hooks;
+};
+
+const inferSlideType = (index: number, total: number, ctaOnLastSlide?: boolean): Slide['tipo'] => {
+  if (index === 0) return 'capa';
+  if (index === total - 1 && ctaOnLastSlide) return 'cta';
+  return 'conteudo';
+};
+
+const normalizeSlides = (
+  rawSlides: unknown[],
+  label: string,
+  expectedCount: number | undefined,
+  ctaOnLastSlide: boolean | undefined,
+  hooksCount: number | undefined,
+  errors: string[],
+  fixes: string[],
+): Slide[] => {
+  let slides = rawSlides.map((raw, index) => {
+    const slide = isObject(raw) ? raw : {};
+    if (!isObject(raw)) errors.push(`${label}: o slide na posição ${index + 1} não é um objeto.`);
+    const frase = typeof slide.frase === 'string' ? slide.frase.trim() : '';
+    if (!frase) errors.push(`${label}: o slide na posição ${index + 1} não tem 'frase'.`);
+    return {
+      ordem: typeof slide.ordem === 'number' && Number.isFinite(slide.ordem) ? slide.ordem : index + 1,
+      tipo: typeof slide.tipo === 'string' ? slide.tipo.trim().toLowerCase() : '',
+      frase,
+      instrucoes_layout: optionalString(slide.instrucoes_layout) ?? '',
+      layout: normalizeLayout(slide.layout, frase, `${label}, slide na posição ${index + 1}`, fixes),
+      prompt_imagem: optionalString(slide.prompt_imagem) ?? '',
+      texto_alternativo: optionalText(slide.texto_alternativo),
+      rawHooks: slide.ganchos,
+    };
+  });
+
+  // Order by the model's 'ordem' and renumber 1..n so gaps and duplicates disappear.
+  const sorted = [...slides].sort((a, b) => a.ordem - b.ordem);
+  if (sorted.some((slide, index) => slide !== slides[index] || slide.ordem !== index + 1)) {
+    fixes.push(`${label}: 'ordem' renumerado de 1 a ${sorted.length}.`);
+  }
+  slides = sorted.map((slide, index) => ({ ...slide, ordem: index + 1 }));
+
+  if (expectedCount !== undefined && slides.length > expectedCount) {
+    // Keep the closing CTA and drop surplus content slides before it.
+    const last = slides[slides.length - 1];
+    const keepLast = ctaOnLastSlide && last.tipo === 'cta';
+    slides = keepLast ? [...slides.slice(0, expectedCount - 1), last] : slides.slice(0, expectedCount);
+    slides = slides.map((slide, index) => ({ ...slide, ordem: index + 1 }));
+    fixes.push(`${label}: slides excedentes removidos (esperado ${expectedCount}).`);
+  } else if (expectedCount !== undefined && slides.length < expectedCount) {
+    errors.push(`${label}: ${slides.length} slide(s) recebido(s), esperado ${expectedCount}.`);
+  }
+
+  return slides.map(({ rawHooks, ...slide }, index) => {
+    let tipo = slide.tipo as Slide['tipo'];
+    if (!SLIDE_TYPES.includes(tipo)) {
+      tipo = inferSlideType(index, slides.length, ctaOnLastSlide);
+      fixes.push(`${label}: 'tipo' do slide ${index + 1} inferido como '${tipo}'.`);
+    } else if (ctaOnLastSlide && index === slides.length - 1 && tipo !== 'cta') {
+      tipo = 'cta';
+      fixes.push(`${label}: último slide marcado como 'cta'.`);
+    }
+    const ganchos = tipo === 'capa' ? normalizeHooks(rawHooks, slide.frase, `${label}, capa`, hooksCount, errors, fixes) : undefined;
+    return { ...slide, tipo, ...(ganchos ? { ganchos } : {}) };
+  });
+};
+
+/**
+ * Checks a parsed model response against the `ApiResponse` contract and what was
+ * requested, repairing what can be repaired. Anything left in `errors` means the
+ * response must not be shown.
+ */
+export const validateApiResponse = (raw: unknown, expected: ResponseExpectations): ValidationResult => {
+  const errors: string[] = [];
+  const fixes: string[] = [];
+
+  if (!isObject(raw)) {
+    return { response: null, errors: ['A resposta não é um objeto JSON.'], fixes };
+  }
+
+  if (raw.mode !== expected.mode) {
+    fixes.push(`'mode' ajustado para '${expected.mode}'.`);
+  }
+  if (raw.language !== expected.language) {
+    fixes.push(`'language' ajustado para '${expected.language}'.`);
+  }
+
+  if (!Array.isArray(raw.carrosseis) || raw.carrosseis.length === 0) {
+    return { response: null, errors: ["'carrosseis' deve ser uma lista com pelo menos um carrossel."], fixes };
+  }
+
+  let rawCarousels = raw.carrosseis;
+  if (expected.carouselsCount !== undefined) {
+    if (rawCarousels.length > expected.carouselsCount) {
+      rawCarousels = rawCarousels.slice(0, expected.carouselsCount);
+      fixes.push(`Carrosséis excedentes removidos (esperado ${expected.carouselsCount}).`);
+    } else if (rawCarousels.length < expected.carouselsCount) {
+      errors.push(`${rawCarousels.length} carrossel(éis) recebido(s), esperado ${expected.carouselsCount}.`);
+    }
+  }
+
+  const usedIds = new Set<string>();
+  const carrosseis: Carousel[] = rawCarousels.map((rawCarousel, index) => {
+    const carousel = isObject(rawCarousel) ? rawCarousel : {};
+    let id = typeof carousel.id === 'string' && carousel.id.trim() ? carousel.id.trim() : '';
+    if (!id) {
+      id = `carrossel_${index + 1}`;
+      fixes.push(`Carrossel ${index + 1} sem 'id'; usado '${id}'.`);
+    }
+    if (usedIds.has(id)) {
+      const original = id;
+      let suffix = 2;
+      while (usedIds.has(`${original}_${suffix}`)) suffix++;
+      id = `${original}_${suffix}`;
+      fixes.push(`'id' duplicado '${original}' renomeado para '${id}'.`);
+    }
+    usedIds.add(id);
+
+    const label = `Carrossel '${id}'`;
+    const expectedCount = expected.carouselSlideCounts?.[id] ?? expected.slidesCount;
+    let slides: Slide[] = [];
+    if (Array.isArray(carousel.slides) && carousel.slides.length > 0) {
+      slides = normalizeSlides(carousel.slides, label, expectedCount, expected.ctaOnLastSlide, expected.hooksCount, errors, fixes);
+    } else {
+      errors.push(`${label}: 'slides' deve ser uma lista não vazia.`);
+    }
+
+    return {
+      id,
+      nicho: optionalString(carousel.nicho),
+      contexto: optionalString(carousel.contexto),
+      // Usually the label from the prompt; generation puts the chosen ids back afterwards.
+      estilo_fundo: findStyleId('background', carousel.estilo_fundo),
+      paleta_cores: findStyleId('palette', carousel.paleta_cores),
+      tipografia: findStyleId('typography', carousel.tipografia),
+      cta_no_ultimo_slide: typeof carousel.cta_no_ultimo_slide === 'boolean' ? carousel.cta_no_ultimo_slide : expected.ctaOnLastSlide,
+      legenda: optionalText(carousel.legenda),
+      hashtags: normalizeCarouselHashtags(carousel.hashtags, label, expected.hashtagsCount, fixes),
+      primeiro_comentario: optionalText(carousel.primeiro_comentario),
+      slides,
+    };
+  });
+
+  if (expected.carouselSlideCounts) {
+    Object.keys(expected.carouselSlideCounts)
+      .filter(id => !usedIds.has(id))
+      .forEach(id => errors.push(`Carrossel '${id}' do CSV está ausente na resposta.`));
+  }
+
+  if (errors.length > 0) {
+    return { response: null, errors, fixes };
+  }
+  return { response: { mode: expected.mode, language: expected.language, carrosseis }, errors, fixes };
+};
+
+/**
+ * Validates a single rewritten slide; its position and, when unusable, its type come from the
+ * slide it replaces. A cover must come back with `hooksCount` hooks when that is 2 or more.
+ */
+export const validateSlide = (raw: unknown, expected: Pick<Slide, 'ordem' | 'tipo'>, hooksCount?: number): ValidationResult<Slide> => {
+  const errors: string[] = [];
+  const fixes: string[] = [];
+  if (!isObject(raw)) {
+    return { response: null, errors: ['A resposta não é um objeto JSON.'], fixes };
+  }
+
+  const frase = typeof raw.frase === 'string' ? raw.frase.trim() : '';
+  if (!frase) errors.push("O slide não tem 'frase'.");
+
+  let tipo = (typeof raw.tipo === 'string' ? raw.tipo.trim().toLowerCase() : '') as Slide['tipo'];
+  if (!SLIDE_TYPES.includes(tipo)) {
+    tipo = expected.tipo;
+    fixes.push(`'tipo' mantido como '${tipo}'.`);
+  }
+  if (raw.ordem !== expected.ordem) {
+    fixes.push(`'ordem' mantido como ${expected.ordem}.`);
+  }
+  const ganchos = tipo === 'capa' && frase ? normalizeHooks(raw.ganchos, frase, 'Capa', hooksCount, errors, fixes) : undefined;
+
+  if (errors.length > 0) {
+    return { response: null, errors, fixes };
+  }
+  return {
+    response: {
+      ordem: expected.ordem,
+      tipo,
+      frase,
+      instrucoes_layout: optionalString(raw.instrucoes_layout) ?? '',
+      layout: normalizeLayout(raw.layout, frase, 'Slide', fixes),
+      prompt_imagem: optionalString(raw.prompt_imagem) ?? '',
+      texto_alternativo: optionalText(raw.texto_alternativo),
+      ...(ganchos ? { ganchos } : {}),
+    },
+    errors,
+    fixes,
+  };
+};
+
+/** Validates `{ alternativas: string[] }`, dropping blanks and repeats and trimming to `count`. */
+export const validateAlternatives = (raw: unknown, count: number, original: string): ValidationResult<string[]> => {
+  const fixes: string[] = [];
+  if (!isObject(raw) || !Array.isArray(raw.alternativas)) {
+    return { response: null, errors: ["'alternativas' deve ser uma lista de frases."], fixes };
+  }
+
+  const seen = new Set([original.trim().toLowerCase()]);
+  const alternatives = raw.alternativas
+    .filter((value): value is string => typeof value === 'string')
+    .map(value => value.trim())
+    .filter(value => {
+      const key = value.toLowerCase();
+      if (!value || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  if (alternatives.length < raw.alternativas.length) {
+    fixes.push('Alternativas vazias ou repetidas removidas.');
+  }
+  if (alternatives.length < count) {
+    return { response: null, errors: [`${alternatives.length} alternativa(s) distinta(s) recebida(s), esperado ${count}.`], fixes };
+  }
+  if (alternatives.length > count) {
+    fixes.push(`Alternativas excedentes removidas (esperado ${count}).`);
+  }
+  return { response: alternatives.slice(0, count), errors: [], fixes };
+};
+
+/**
+ * Validates a translation of `source` and applies it to a copy: only the phrases, the
+ * title and highlighted words of each layout, the alt texts and the post copy change.
+ * Slide count, order, types, image prompts and backgrounds stay the original's.
+ */
+export const validateTranslation = (raw: unknown, source: Carousel): ValidationResult<Carousel> => {
+  const errors: string[] = [];
+  const fixes: string[] = [];
+  if (!isObject(raw) || !Array.isArray(raw.slides)) {
+    return { response: null, errors: ["A resposta deve ser um objeto com a lista 'slides'."], fixes };
+  }
+  if (raw.slides.length !== source.slides.length) {
+    errors.push(`${raw.slides.length} slide(s) traduzido(s), esperado ${source.slides.length}.`);
+  }
+
+  // Matched by 'ordem' when the model kept it, otherwise by position.
+  const rawSlides = raw.slides;
+  const slides = source.slides.map((slide, index) => {
+    const label = `Slide ${slide.ordem}`;
+    const translated = rawSlides.find(item => isObject(item) && item.ordem === slide.ordem) ?? rawSlides[index];
+    const item = isObject(translated) ? translated : {};
+    const ganchos = slide.ganchos && parseHooks(item.ganchos);
+    if (ganchos && ganchos.length !== slide.ganchos!.length) {
+      errors.push(`${label}: ${ganchos.length} gancho(s) traduzido(s), esperado ${slide.ganchos!.length}.`);
+    }
+    // A cover keeps showing the same hook, now translated.
+    const activeHook = ganchos?.[getActiveHookIndex(slide)];
+    const frase = activeHook?.frase ?? (typeof item.frase === 'string' ? item.frase.trim() : '');
+    if (!frase) errors.push(`${label}: sem 'frase' traduzida.`);
+    const layout = slide.layout
+      && normalizeLayout({ ...slide.layout, palavras_titulo: item.palavras_titulo, palavras_destaque: item.palavras_destaque }, frase, label, fixes);
+    return { ...slide, frase, layout, texto_alternativo: optionalText(item.texto_alternativo), ...(ganchos ? { ganchos } : {}) };
+  });
+
+  if (errors.length > 0) {
+    return { response: null, errors, fixes };
+  }
+  return {
+    response: {
+      ...source,
+      legenda: optionalText(raw.legenda),
+      hashtags: normalizeCarouselHashtags(raw.hashtags, 'Tradução', source.hashtags?.length, fixes),
+      primeiro_comentario: optionalText(raw.primeiro_comentario),
+      slides,
+    },
+    errors,
+    fixes,
+  };
+};
@@ -0,0 +1,33 @@
+import type { Slide } from '../types';
+
+// Pure helpers for editing a carousel's slide list. Every helper returns a new
+// array with 'ordem' renumbered from 1, so callers never deal with gaps.
+
+export const renumberSlides = (slides: Slide[]): Slide[] =>
+  slides.map((slide, index) => (slide.ordem === index + 1 ? slide : { ...slide, ordem: index + 1 }));
+
+export const updateSlide = (slides: Slide[], index: number, patch: Partial<Omit<Slide, 'ordem'>>): Slide[] =>
+  slides.map((slide, i) => (i === index ? { ...slide, ...patch } : slide));
+
+export const moveSlide = (slides: Slide[], from: number, to: number): Slide[] => {
+  if (from === to || from < 0 || from >= slides.length) return slides;
+  const next = [...slides];
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, moved);
+  return renumberSlides(next);
+};
+
+export const duplicateSlide = (slides: Slide[], index: number): Slide[] => {
+  const next = [...slides];
+  next.splice(index + 1, 0, { ...slides[index] });
+  return renumberSlides(next);
+};
+
+export const insertSlide = (slides: Slide[], index: number): Slide[] => {
+  const next = [...slides];
+  next.splice(index, 0, { ordem: 0, tipo: 'conteudo', frase: '', instrucoes_layout: '', prompt_imagem: '' });
+  return renumberSlides(next);
+};
+
+export const deleteSlide = (slides: Slide[], index: number): Slide[] =>
+  slides.length <= 1 ? slides : renumberSlides(slides.filter((_, i) => i !== index));
@@ -0,0 +1,323 @@
+import type { BackgroundImage, BrandKit, Carousel, ColorPalette, LogoPosition, PaletteId, TypographyId, Slide, SlideFormat, SlideLayout } from '../types';
+import { STYLE_OPTIONS, TYPOGRAPHY_FONTS, PALETTES, DEFAULT_SLIDE_LAYOUT } from '../constants';
+import { toStyledWords, type StyledWord, type TextRun } from './emphasisMarkup';
+import { fitText, cachedMeasure, type FittedBlock, type FontFor, type TextFit } from './textFitting';
+
+export const getFontDetails = (typography: TypographyId | undefined) => {
+    const defaultFont = { fontFamily: "'Montserrat', sans-serif", textTransform: 'none' as 'none' | 'uppercase', fontWeight: '700' };
+    const font = typography && TYPOGRAPHY_FONTS[typography];
+
+    if (!font) {
+        return defaultFont;
+    }
+
+    return {
+        ...defaultFont,
+        fontFamily: font.fontFamily,
+        textTransform: font.uppercase ? 'uppercase' as const : 'none' as const,
+    };
+};
+
+export const getColorPalette = (palette: PaletteId | undefined): ColorPalette =>
+    (palette && PALETTES[palette]) || PALETTES[STYLE_OPTIONS.palette[0]];
+
+/** Whether the carousel asks for generated photo backgrounds. */
+export const usesPhotoBackground = (carousel: Carousel) => carousel.estilo_fundo === 'photo';
+
+/** The carousel's exact colors: its brand kit's when it has one, otherwise its palette preset's. */
+export const getCarouselPalette = (carousel: Carousel): ColorPalette =>
+    carousel.marca?.colors ?? getColorPalette(carousel.paleta_cores);
+
+/** CSS `background` value for a palette. */
+export const getBackgroundCss = (palette: ColorPalette) =>
+    palette.gradient && palette.gradient.length > 1
+        ? `linear-gradient(135deg, ${palette.gradient.join(', ')})`
+        : palette.background;
+
+/** Brand kit text shown at the bottom of every slide, e.g. "@handle · footer". */
+export const getBrandFooterText = (kit: BrandKit) => [kit.handle, kit.footer].filter(Boolean).join(' · ');
+
+/** The slide's layout, or the default one with the format's margin for slides that have none. */
+export const getSlideLayout = (slide: Slide, format: SlideFormat): SlideLayout =>
+    slide.layout ?? { ...DEFAULT_SLIDE_LAYOUT, margem: format.marginX };
+
+/** Text-safe margins in pixels; the format's vertical safe zone is never reduced. */
+export const getLayoutMargins = (layout: SlideLayout, format: SlideFormat) => ({
+    x: layout.margem * format.width,
+    y: Math.max(format.marginY * format.height, layout.margem * format.width),
+});
+
+export const TEXT_ALIGN: Record<SlideLayout['alinhamento'], 'left' | 'center' | 'right'> = {
+    esquerda: 'left',
+    centro: 'center',
+    direita: 'right',
+};
+
+/** Splits the phrase into styled words: a title made of its first `titleWords` words, and the body. */
+export const splitTitle = (frase: string, titleWords: number): { title: StyledWord[]; body: StyledWord[] } => {
+    const words = toStyledWords(frase);
+    if (titleWords <= 0 || titleWords >= words.length) return { title: [], body: words };
+    return { title: words.slice(0, titleWords), body: words.slice(titleWords) };
+};
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/** Predicate telling whether a word of the phrase is one of the layout's emphasized words, ignoring case and punctuation. */
+export const getEmphasisMatcher = (emphasized: string[]) => {
+    const keys = new Set(emphasized.flatMap(entry => entry.split(/\s+/)).map(normalizeWord).filter(Boolean));
+    return (word: string) => keys.has(normalizeWord(word));
+};
+
+// Bold markup goes one step above the typography's own weight.
+const BOLD_WEIGHT = '900';
+
+const getRunColor = (segment: TextRun, word: StyledWord, colors: { text: string; accent: string }, isEmphasized: (word: string) => boolean) =>
+    segment.accent || isEmphasized(word.text) ? colors.accent : colors.text;
+
+/**
+ * Lays out the slide's phrase for the format: title/body split, line wrapping and the
+ * largest font size that fits the text box. Sizes are in pixels of the exported image.
+ */
+export const fitSlideText = (ctx: CanvasRenderingContext2D, slide: Slide, carousel: Carousel, format: SlideFormat): TextFit & { font: FontFor } => {
+    const layout = getSlideLayout(slide, format);
+    const { fontFamily, textTransform, fontWeight } = getFontDetails(carousel.tipografia);
+    const text = textTransform === 'uppercase' ? slide.frase.toUpperCase() : slide.frase;
+    const { title, body } = splitTitle(text, layout.palavras_titulo);
+    const font: FontFor = (size, bold) => `${bold ? BOLD_WEIGHT : fontWeight} ${size}px ${fontFamily}`;
+    const margins = getLayoutMargins(layout, format);
+
+    const fit = fitText(title, body, {
+        measure: cachedMeasure((value, f) => {
+            ctx.font = f;
+            return ctx.measureText(value).width;
+        }),
+        font,
+        // Sizes from the 1080px reference design.
+        maxSize: (slide.tipo === 'capa' ? 90 : 70) * format.fontScale,
+        minSize: 24 * format.fontScale,
+        bodyRatio: 0.6,
+        lineHeight: 1.2,
+        box: { top: margins.y, width: format.width - 2 * margins.x, height: format.height - 2 * margins.y },
+        vertical: layout.posicao_vertical,
+    });
+    return { ...fit, font };
+};
+
+/**
+ * Where slides get a canvas, decode images and encode the result: the browser's APIs by
+ * default. The command-line generator installs a Node implementation.
+ */
+export interface CanvasPlatform {
+    createCanvas: (width: number, height: number) => HTMLCanvasElement;
+    loadImage: (src: string) => Promise<HTMLImageElement | null>;
+    toBlob: (canvas: HTMLCanvasElement, type: string, quality?: number) => Promise<Blob | null>;
+}
+
+const browserPlatform: CanvasPlatform = {
+    createCanvas: (width, height) => Object.assign(document.createElement('canvas'), { width, height }),
+    loadImage: src => new Promise(resolve => {
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = () => resolve(null);
+        img.src = src;
+    }),
+    toBlob: (canvas, type, quality) => new Promise(resolve => canvas.toBlob(resolve, type, quality)),
+};
+
+let platform = browserPlatform;
+let measuringContext: CanvasRenderingContext2D | null = null;
+
+export const setCanvasPlatform = (next: CanvasPlatform) => {
+    platform = next;
+    measuringContext = null;
+};
+
+/** `fitSlideText` without rendering, for warnings and the preview. */
+export const measureSlideText = (slide: Slide, carousel: Carousel, format: SlideFormat) => {
+    measuringContext ??= platform.createCanvas(1, 1).getContext('2d');
+    return measuringContext ? fitSlideText(measuringContext, slide, carousel, format) : null;
+};
+
+type TextBox = { left: number; right: number; align: 'left' | 'center' | 'right' };
+
+const getLineStart = (lineWidth: number, box: TextBox) =>
+    box.align === 'left' ? box.left : box.align === 'right' ? box.right - lineWidth : (box.left + box.right - lineWidth) / 2;
+
+const getTextBox = (layout: SlideLayout, format: SlideFormat): TextBox => {
+    const margins = getLayoutMargins(layout, format);
+    return { left: margins.x, right: format.width - margins.x, align: TEXT_ALIGN[layout.alinhamento] };
+};
+
+export interface PlacedTextLine {
+    text: string;
+    // Left edge and vertical center of the line, font size and width, in pixels of the exported image.
+    x: number;
+    y: number;
+    size: number;
+    width: number;
+}
+
+/** The fitted lines of the slide's phrase as plain text, where the renderer draws them. */
+export const getSlideTextLines = (slide: Slide, carousel: Carousel, format: SlideFormat): PlacedTextLine[] => {
+    const fit = measureSlideText(slide, carousel, format);
+    if (!fit) return [];
+    const box = getTextBox(getSlideLayout(slide, format), format);
+    const place = (block: FittedBlock, top: number) => block.lines.map((line, i) => ({
+        text: line.words.map(word => word.segments.map(s => s.text).join('')).join(' '),
+        x: getLineStart(line.width, box),
+        y: top + i * block.lineHeight + block.lineHeight / 2,
+        size: block.size,
+        width: line.width,
+    }));
+    return [
+        ...place(fit.title, fit.top),
+        ...place(fit.body, fit.top + fit.title.lines.length * fit.title.lineHeight + fit.gap),
+    ];
+};
+
+// Draws fitted lines segment by segment, so styles carry across line wraps.
+const drawBlock = (
+    ctx: CanvasRenderingContext2D,
+    block: FittedBlock,
+    font: FontFor,
+    top: number,
+    box: TextBox,
+    colors: { text: string; accent: string },
+    isEmphasized: (word: string) => boolean,
+) => {
+    ctx.font = font(block.size);
+    const spaceWidth = ctx.measureText(' ').width;
+    block.lines.forEach((line, i) => {
+        let x = getLineStart(line.width, box);
+        const y = top + i * block.lineHeight + block.lineHeight / 2;
+        for (const word of line.words) {
+            for (const segment of word.segments) {
+                ctx.font = font(block.size, segment.bold);
+                ctx.fillStyle = getRunColor(segment, word, colors, isEmphasized);
+                ctx.fillText(segment.text, x, y);
+                const segmentWidth = ctx.measureText(segment.text).width;
+                if (segment.underline) {
+                    ctx.fillRect(x, y + block.size * 0.5, segmentWidth, Math.max(2, block.size * 0.06));
+                }
+                x += segmentWidth;
+            }
+            x += spaceWidth;
+        }
+    });
+};
+
+/** The slide's uploaded background: its own, else the carousel's. */
+export const getSlideBackground = (slide: Slide, carousel: Carousel): BackgroundImage | undefined => slide.fundo ?? carousel.fundo;
+
+/** Where the slide's background lives in a project's images: under its asset, or under its generation prompt. */
+export const getBackgroundKey = (slide: Slide, carousel: Carousel) => {
+    const background = getSlideBackground(slide, carousel);
+    return background ? `asset:${background.assetId}` : slide.prompt_imagem;
+};
+
+/**
+ * Rectangle, in slide pixels, where an image is drawn to cover the slide. Without a
+ * position the image is centered; with one it is zoomed and panned, never leaving a gap.
+ */
+export const getImageRect = (imageWidth: number, imageHeight: number, width: number, height: number, position?: Pick<BackgroundImage, 'x' | 'y' | 'zoom'>) => {
+    const scale = Math.max(width / imageWidth, height / imageHeight) * Math.max(1, position?.zoom ?? 1);
+    const drawWidth = imageWidth * scale;
+    const drawHeight = imageHeight * scale;
+    const offset = (focus: number, drawn: number, size: number) => Math.min(0, Math.max(size - drawn, size / 2 - focus * drawn));
+    return {
+        x: offset(position?.x ?? 0.5, drawWidth, width),
+        y: offset(position?.y ?? 0.5, drawHeight, height),
+        width: drawWidth,
+        height: drawHeight,
+    };
+};
+
+// Draws the image scaled to cover the whole canvas, cropping the overflow, like CSS `background-size: cover`.
+const drawImageCover = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, width: number, height: number, position?: BackgroundImage) => {
+    const rect = getImageRect(image.width, image.height, width, height, position);
+    ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height);
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement | null> => platform.loadImage(src);
+
+const fillBackground = (ctx: CanvasRenderingContext2D, palette: ColorPalette, width: number, height: number) => {
+    if (palette.gradient && palette.gradient.length > 1) {
+        const gradient = ctx.createLinearGradient(0, 0, width, height);
+        palette.gradient.forEach((color, i) => gradient.addColorStop(i / (palette.gradient!.length - 1), color));
+        ctx.fillStyle = gradient;
+    } else {
+        ctx.fillStyle = palette.background;
+    }
+    ctx.fillRect(0, 0, width, height);
+};
+
+const drawLogo = (ctx: CanvasRenderingContext2D, logo: HTMLImageElement, position: LogoPosition, size: number, format: SlideFormat) => {
+    const logoWidth = format.width * size;
+    const logoHeight = logo.height * (logoWidth / logo.width);
+    const marginX = format.width * format.marginX / 2;
+    const marginY = format.height * format.marginY / 2;
+    const x = position.endsWith('left') ? marginX : format.width - marginX - logoWidth;
+    const y = position.startsWith('top') ? marginY : format.height - marginY - logoHeight;
+    ctx.drawImage(logo, x, y, logoWidth, logoHeight);
+};
+
+export const renderSlideToBlob = (
+    slide: Slide,
+    carousel: Carousel,
+    bgImage: HTMLImageElement | null,
+    format: SlideFormat,
+    logo: HTMLImageElement | null = null,
+    type: 'image/png' | 'image/jpeg' = 'image/png',
+): Promise<Blob | null> => {
+    const { width, height } = format;
+    const canvas = platform.createCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.resolve(null);
+
+    const palette = getCarouselPalette(carousel);
+
+    const layout = getSlideLayout(slide, format);
+
+    // 1. Draw Background
+    if (bgImage) {
+        drawImageCover(ctx, bgImage, width, height, getSlideBackground(slide, carousel));
+        ctx.fillStyle = `rgba(0, 0, 0, ${layout.opacidade_overlay})`; // Dark overlay
+        ctx.fillRect(0, 0, width, height);
+    } else {
+        fillBackground(ctx, palette, width, height);
+    }
+
+    // 2. Lay out the text: wrapped lines at the largest size that fits the text box
+    const { fontFamily } = getFontDetails(carousel.tipografia);
+    const fit = fitSlideText(ctx, slide, carousel, format);
+    const margins = getLayoutMargins(layout, format);
+    const maxTextWidth = width - 2 * margins.x;
+
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+
+    // 3. Draw Text (markup styles and emphasized words in the accent color)
+    const box = getTextBox(layout, format);
+    const isEmphasized = getEmphasisMatcher(layout.palavras_destaque);
+    drawBlock(ctx, fit.title, fit.font, fit.top, box, palette, isEmphasized);
+    drawBlock(ctx, fit.body, fit.font, fit.top + fit.title.lines.length * fit.title.lineHeight + fit.gap, box, palette, isEmphasized);
+
+    // 4. Brand kit: footer line and logo
+    const kit = carousel.marca;
+    if (kit) {
+        const footerText = getBrandFooterText(kit);
+        if (footerText) {
+            ctx.font = `600 ${28 * format.fontScale}px ${fontFamily}`;
+            ctx.fillStyle = palette.accent;
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'bottom';
+            ctx.fillText(footerText, width / 2, height - height * format.marginY / 2, maxTextWidth);
+        }
+        if (logo) {
+            drawLogo(ctx, logo, kit.logoPosition, kit.logoSize, format);
+        }
+    }
+
+    return platform.toBlob(canvas, type, type === 'image/jpeg' ? 0.92 : undefined);
+};
@@ -0,0 +1,51 @@
+// Reads the parts of a streamed API response that are already complete, so carousels
+// can be shown while the model is still writing the rest of the JSON.
+
+export interface StreamedCarousels {
+  // Raw carousel objects whose closing brace has arrived, in order.
+  carousels: unknown[];
+  // Slide objects closed so far, including those of the carousel still streaming.
+  slides: number;
+}
+
+const CAROUSELS_START = /"carrosseis"\s*:\s*\[/;
+
+/** Scans the partial JSON text of an API response. */
+export const scanStreamedCarousels = (text: string): StreamedCarousels => {
+  const result: StreamedCarousels = { carousels: [], slides: 0 };
+  const match = CAROUSELS_START.exec(text);
+  if (!match) return result;
+
+  // Depth inside the 'carrosseis' array: carousels open at 1, their 'slides' array
+  // at 2 and each slide at 3. Other carousel fields never hold objects.
+  let depth = 0;
+  let start = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = match.index + match[0].length; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      // The 'carrosseis' array itself closed.
+      if (depth < 0) break;
+      if (depth === 2 && char === '}') result.slides++;
+      if (depth === 0 && char === '}') {
+        try {
+          result.carousels.push(JSON.parse(text.slice(start, i + 1)));
+        } catch {
+          break;
+        }
+      }
+    }
+  }
+  return result;
+};
@@ -0,0 +1,46 @@
+import type { Carousel, CSVGenerationParams, IAGenerationParams, ProjectInput } from '../types';
+import { STYLE_OPTIONS, type StyleGroup, type StyleOptionId } from '../constants';
+import { LOCALES, createTranslator, type Translate } from '../locales';
+
+// Style options are stored by id; these turn ids into labels for display and prompts,
+// and the labels people type (CSV columns, CLI flags, older projects) back into ids.
+
+export const getStyleLabel = (t: Translate, group: StyleGroup, id: string) => t(`${group}_${id}`);
+
+// Prompts are written in Portuguese, so the model sees the Portuguese labels.
+const promptTranslator = createTranslator('pt');
+
+export const getPromptStyleLabel = (group: StyleGroup, id: string | undefined) => (id ? getStyleLabel(promptTranslator, group, id) : '');
+
+// Case, accents and quotes do not matter: 'Fundo "dark"' matches 'fundo dark'.
+const normalizeLabel = (value: string) =>
+  value.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/["'“”]/g, '');
+
+/** The id for an id or for its label in any UI language; undefined when nothing matches. */
+export const findStyleId = <G extends StyleGroup>(group: G, value: unknown): StyleOptionId<G> | undefined => {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const wanted = normalizeLabel(value);
+  const options = STYLE_OPTIONS[group] as StyleOptionId<G>[];
+  return options.find(id => id === value)
+    ?? options.find(id => Object.values(LOCALES).some(locale => normalizeLabel(locale.messages[`${group}_${id}`] ?? '') === wanted));
+};
+
+// Projects saved before style ids stored the label of the UI language of the time.
+export const migrateCarouselStyle = (carousel: Carousel): Carousel => ({
+  ...carousel,
+  estilo_fundo: findStyleId('background', carousel.estilo_fundo),
+  paleta_cores: findStyleId('palette', carousel.paleta_cores),
+  tipografia: findStyleId('typography', carousel.tipografia),
+  cta_tipo: findStyleId('ctaType', carousel.cta_tipo),
+});
+
+const migrateParamsStyle = <P extends IAGenerationParams | CSVGenerationParams>(params: P): P => ({
+  ...params,
+  backgroundStyle: findStyleId('background', params.backgroundStyle) ?? STYLE_OPTIONS.background[0],
+  colorPalette: findStyleId('palette', params.colorPalette) ?? STYLE_OPTIONS.palette[0],
+  typography: findStyleId('typography', params.typography) ?? STYLE_OPTIONS.typography[0],
+  ctaType: findStyleId('ctaType', params.ctaType) ?? STYLE_OPTIONS.ctaType[0],
+});
+
+export const migrateInputStyle = (input: ProjectInput): ProjectInput =>
+  ({ ...input, params: migrateParamsStyle(input.params) }) as ProjectInput;
@@ -0,0 +1,189 @@
+import type { SlideLayout } from '../types';
+import type { StyledWord, TextRun } from './emphasisMarkup';
+
+// Layout pass for slide text: wraps styled words into lines, breaks words that are
+// wider than the box, and searches for the largest font size whose lines fit the box.
+// Measuring is injected so the same pass drives the canvas renderer and the preview.
+
+export type FontFor = (size: number, bold?: boolean) => string;
+export type MeasureText = (text: string, font: string) => number;
+
+export interface FittedLine {
+  words: StyledWord[];
+  width: number;
+}
+
+export interface FittedBlock {
+  size: number;
+  lineHeight: number;
+  lines: FittedLine[];
+}
+
+// 'squeezed': it fits, but well below the design size or only by breaking words.
+// 'overflow': it does not fit even at the minimum size.
+export type FitStatus = 'ok' | 'squeezed' | 'overflow';
+
+export interface TextFit {
+  title: FittedBlock;
+  body: FittedBlock;
+  // Space between the title and the body.
+  gap: number;
+  // Top of the text block and its height, in the same units as the box.
+  top: number;
+  height: number;
+  status: FitStatus;
+}
+
+export interface FitOptions {
+  measure: MeasureText;
+  font: FontFor;
+  // Design size of the title, or of the whole phrase when there is no title. Never exceeded.
+  maxSize: number;
+  minSize: number;
+  // Body size relative to the title size when the phrase has a title.
+  bodyRatio: number;
+  // Line height as a multiple of the font size.
+  lineHeight: number;
+  box: { top: number; width: number; height: number };
+  vertical: SlideLayout['posicao_vertical'];
+}
+
+// Below this fraction of the design size, fitted text counts as squeezed.
+export const SQUEEZE_THRESHOLD = 0.7;
+
+const HYPHEN = '-';
+
+/** Caches a measuring function; a fitting pass measures the same words many times. */
+export const cachedMeasure = (measure: MeasureText): MeasureText => {
+  const cache = new Map<string, number>();
+  return (text, font) => {
+    const key = `${font}\u0000${text}`;
+    let width = cache.get(key);
+    if (width === undefined) {
+      width = measure(text, font);
+      cache.set(key, width);
+    }
+    return width;
+  };
+};
+
+// User-perceived characters, so emoji and accented letters are never split apart.
+const splitGraphemes = (text: string): string[] =>
+  typeof Intl !== 'undefined' && 'Segmenter' in Intl
+    ? Array.from(new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(text), s => s.segment)
+    : Array.from(text);
+
+const measureWord = (word: StyledWord, size: number, options: FitOptions) =>
+  word.segments.reduce((width, segment) => width + options.measure(segment.text, options.font(size, segment.bold)), 0);
+
+// Splits a word that is wider than the box into hyphenated pieces. Pieces keep the
+// original word's text so emphasis by word still applies to every piece.
+const breakWord = (word: StyledWord, size: number, maxWidth: number, options: FitOptions): StyledWord[] => {
+  const hyphenWidth = options.measure(HYPHEN, options.font(size));
+  const pieces: StyledWord[] = [];
+  let segments: TextRun[] = [];
+  let width = 0;
+
+  const pushPiece = (hyphenate: boolean) => {
+    if (segments.length === 0) return;
+    if (hyphenate) {
+      const last = segments[segments.length - 1];
+      segments[segments.length - 1] = { ...last, text: last.text + HYPHEN };
+    }
+    pieces.push({ segments, text: word.text, ...(pieces.length === 0 && word.breakBefore ? { breakBefore: true } : {}) });
+    segments = [];
+    width = 0;
+  };
+
+  for (const segment of word.segments) {
+    for (const char of splitGraphemes(segment.text)) {
+      const charWidth = options.measure(char, options.font(size, segment.bold));
+      if (segments.length > 0 && width + charWidth + hyphenWidth > maxWidth) {
+        pushPiece(true);
+      }
+      const last = segments[segments.length - 1];
+      if (last && last.bold === segment.bold && last.accent === segment.accent && last.underline === segment.underline) {
+        segments[segments.length - 1] = { ...last, text: last.text + char };
+      } else {
+        segments.push({ ...segment, text: char });
+      }
+      width += charWidth;
+    }
+  }
+  pushPiece(false);
+  return pieces;
+};
+
+// Greedy wrap at a given size, honoring explicit line breaks.
+const layoutBlock = (words: StyledWord[], size: number, options: FitOptions): { block: FittedBlock; brokeWords: boolean } => {
+  const maxWidth = options.box.width;
+  const spaceWidth = options.measure(' ', options.font(size));
+  const lines: FittedLine[] = [];
+  let current: StyledWord[] = [];
+  let currentWidth = 0;
+  let brokeWords = false;
+
+  const flush = () => {
+    if (current.length > 0) lines.push({ words: current, width: currentWidth });
+    current = [];
+    currentWidth = 0;
+  };
+
+  for (const original of words) {
+    if (original.breakBefore) flush();
+    const originalWidth = measureWord(original, size, options);
+    const pieces = originalWidth > maxWidth ? breakWord(original, size, maxWidth, options) : [original];
+    if (pieces.length > 1) brokeWords = true;
+    for (const word of pieces) {
+      const wordWidth = word === original ? originalWidth : measureWord(word, size, options);
+      if (current.length > 0 && currentWidth + spaceWidth + wordWidth > maxWidth) flush();
+      currentWidth += (current.length > 0 ? spaceWidth : 0) + wordWidth;
+      current.push(word);
+    }
+  }
+  flush();
+  return { block: { size, lineHeight: size * options.lineHeight, lines }, brokeWords };
+};
+
+const layoutAt = (title: StyledWord[], body: StyledWord[], size: number, options: FitOptions) => {
+  const hasTitle = title.length > 0;
+  const titleResult = layoutBlock(title, hasTitle ? size : 0, options);
+  const bodySize = hasTitle ? Math.round(size * options.bodyRatio) : size;
+  const bodyResult = layoutBlock(body, bodySize, options);
+  const gap = hasTitle ? bodySize * 0.6 : 0;
+  const height = titleResult.block.lines.length * titleResult.block.lineHeight + gap + bodyResult.block.lines.length * bodyResult.block.lineHeight;
+  return { title: titleResult.block, body: bodyResult.block, gap, height, brokeWords: titleResult.brokeWords || bodyResult.brokeWords };
+};
+
+/** Finds the largest whole font size, up to `maxSize`, at which the title and body fit the box. */
+export const fitText = (title: StyledWord[], body: StyledWord[], options: FitOptions): TextFit => {
+  let low = Math.ceil(options.minSize);
+  let high = Math.max(low, Math.floor(options.maxSize));
+  let best: ReturnType<typeof layoutAt> | null = null;
+
+  while (low <= high) {
+    const size = Math.floor((low + high) / 2);
+    const candidate = layoutAt(title, body, size, options);
+    if (candidate.height <= options.box.height) {
+      best = candidate;
+      low = size + 1;
+    } else {
+      high = size - 1;
+    }
+  }
+
+  const fitted = best ?? layoutAt(title, body, Math.ceil(options.minSize), options);
+  const size = fitted.title.lines.length > 0 ? fitted.title.size : fitted.body.size;
+  const status: FitStatus = !best
+    ? 'overflow'
+    : fitted.brokeWords || size < options.maxSize * SQUEEZE_THRESHOLD ? 'squeezed' : 'ok';
+
+  const { box, vertical } = options;
+  const top = vertical === 'topo'
+    ? box.top
+    : vertical === 'base'
+      ? box.top + box.height - fitted.height
+      : box.top + (box.height - fitted.height) / 2;
+
+  return { title: fitted.title, body: fitted.body, gap: fitted.gap, top, height: fitted.height, status };
+};
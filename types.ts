@@ -1,23 +1,138 @@
 
-export type Language = 'pt' | 'en' | 'es';
+// A BCP 47 code: a UI locale with a catalog in locales/, or a phrase language from PHRASE_LANGUAGES.
+export type Language = string;
 export type GenerationMode = 'ia' | 'csv';
+export type SlideFormatId = 'square' | 'portrait' | 'story' | 'linkedin';
+
+// Style choices, stored by id so carousels look the same in every UI language. Labels
+// come from the locale catalogs and are only resolved for display and prompts.
+export type BackgroundStyleId = 'solid' | 'gradient' | 'texture' | 'photo' | 'dark';
+export type PaletteId = 'light' | 'dark' | 'vibrant' | 'neutral';
+export type TypographyId = 'sans' | 'serif' | 'script' | 'bold';
+export type CtaTypeId = 'follow' | 'save' | 'comment' | 'bioLink';
+
+export interface SlideFormat {
+  id: SlideFormatId;
+  width: number;
+  height: number;
+  // Ratio requested from image models, e.g. '4:5'.
+  imageAspectRatio: string;
+  // Text size relative to the 1080px square reference design.
+  fontScale: number;
+  // Text-safe margins as a fraction of the width / height.
+  marginX: number;
+  marginY: number;
+}
+
+export type LogoPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// Exact hex colors used by the preview and the exported images.
+export interface ColorPalette {
+  background: string;
+  text: string;
+  accent: string;
+  // Two or more stops; when set, the background is a diagonal gradient instead of the flat color.
+  gradient?: string[];
+}
+
+export interface BrandKit {
+  id: string;
+  name: string;
+  colors: ColorPalette;
+  // Logo as a data URL.
+  logo?: string;
+  logoPosition: LogoPosition;
+  // Logo width as a fraction of the slide width.
+  logoSize: number;
+  handle: string;
+  footer: string;
+  // Checked by the content linter: terms the phrases must not use, and terms each
+  // carousel must mention on a slide or in the caption.
+  bannedTerms?: string[];
+  requiredTerms?: string[];
+}
+
+// Machine-readable design of a slide, honored by the preview and the exported images.
+export interface SlideLayout {
+  alinhamento: 'esquerda' | 'centro' | 'direita';
+  posicao_vertical: 'topo' | 'centro' | 'base';
+  // The first N words of 'frase' are drawn as a larger title; 0 draws the phrase as one block.
+  palavras_titulo: number;
+  // Words drawn in the accent color.
+  palavras_destaque: string[];
+  // Darkening over background photos, from 0 to 1.
+  opacidade_overlay: number;
+  // Inner margin as a fraction of the slide width.
+  margem: number;
+}
+
+// An image from the asset library.
+export interface Asset {
+  id: string;
+  name: string;
+  dataUrl: string;
+  width: number;
+  height: number;
+  createdAt: number;
+}
+
+// An asset placed as a slide background. The image covers the slide at `zoom` (1 =
+// just covering it) and `x`/`y` (0 to 1) pick the point of the image kept in the
+// center, so the same crop adapts to every slide format.
+export interface BackgroundImage {
+  assetId: string;
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+// An alternative opening line for a cover slide, with the strategy behind it.
+export interface CoverHook {
+  frase: string;
+  // A few words: curiosity, controversy, numbers...
+  motivo: string;
+}
 
 export interface Slide {
   ordem: number;
   tipo: 'capa' | 'conteudo' | 'cta';
   frase: string;
+  // Free-text design notes; 'layout' is what the renderer actually reads.
   instrucoes_layout: string;
+  layout?: SlideLayout;
   prompt_imagem: string;
+  // Accessibility description of the finished slide image.
+  texto_alternativo?: string;
+  // Uploaded background; wins over the carousel's and over the generated image.
+  fundo?: BackgroundImage;
+  // Cover slides only: the hooks to A/B test, in order A, B... 'frase' is the one shown.
+  ganchos?: CoverHook[];
 }
 
 export interface Carousel {
   id: string;
   nicho?: string;
   contexto?: string;
-  estilo_fundo?: string;
-  paleta_cores?: string;
-  tipografia?: string;
+  estilo_fundo?: BackgroundStyleId;
+  paleta_cores?: PaletteId;
+  tipografia?: TypographyId;
   cta_no_ultimo_slide?: boolean;
+  cta_tipo?: CtaTypeId;
+  formato?: SlideFormatId;
+  // Snapshot of the brand kit chosen at generation time; overrides 'paleta_cores'.
+  marca?: BrandKit;
+  // Post copy: the caption, hashtags (each starting with '#') and a comment to pin.
+  legenda?: string;
+  hashtags?: string[];
+  primeiro_comentario?: string;
+  // Uploaded background for every slide that has none of its own.
+  fundo?: BackgroundImage;
+  // Translated variants: the id of the carousel they translate and their phrase
+  // language. Other carousels are in the response's language.
+  variante_de?: string;
+  idioma?: Language;
   slides: Slide[];
 }
 
@@ -31,4 +146,71 @@ export interface CsvRow {
   carrossel_id: string;
   ordem_slide: number;
   frase: string;
+  // Optional per-slide overrides.
+  tipo?: Slide['tipo'];
+  prompt_imagem?: string;
+  // Optional per-carousel overrides; the first non-empty value in a carousel wins.
+  estilo_fundo?: BackgroundStyleId;
+  paleta_cores?: PaletteId;
+  tipografia?: TypographyId;
+  cta_tipo?: CtaTypeId;
+  nicho?: string;
+}
+
+export interface CsvCarouselSpec {
+  nicho?: string;
+  estilo_fundo?: BackgroundStyleId;
+  paleta_cores?: PaletteId;
+  tipografia?: TypographyId;
+  cta_tipo?: CtaTypeId;
+  slides: { ordem: number; frase: string; tipo?: Slide['tipo']; prompt_imagem?: string }[];
+}
+
+export type CsvCarouselsMap = Record<string, CsvCarouselSpec>;
+
+export interface IAGenerationParams {
+  niche: string;
+  context: string;
+  tone: string;
+  slidesCount: number;
+  carouselsCount: number;
+  backgroundStyle: BackgroundStyleId;
+  colorPalette: PaletteId;
+  typography: TypographyId;
+  phrasesLanguage: Language;
+  cta: boolean;
+  ctaType: CtaTypeId;
+  format: SlideFormatId;
+  brandKit?: BrandKit;
+  hashtagsCount: number;
+  // Cover hooks per carousel (HOOKS_RANGE); missing in projects saved before hooks.
+  hooksCount?: number;
+}
+
+export interface CSVGenerationParams {
+  language: Language;
+  backgroundStyle: BackgroundStyleId;
+  colorPalette: PaletteId;
+  typography: TypographyId;
+  cta: boolean;
+  ctaType?: CtaTypeId;
+  format: SlideFormatId;
+  brandKit?: BrandKit;
+  hashtagsCount: number;
+}
+
+export type ProjectInput =
+  | { mode: 'ia'; params: IAGenerationParams }
+  | { mode: 'csv'; params: CSVGenerationParams; rows: CsvRow[]; fileName: string };
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  input: ProjectInput;
+  // Latest state of the generated carousels, including the user's edits.
+  response: ApiResponse;
+  // Generated background images as data URLs, keyed by prompt.
+  images: Record<string, string>;
 }
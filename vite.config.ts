@@ -8,11 +8,14 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The backend (npm run server) holds the keys; the browser only talks to /api.
+        proxy: {
+          '/api': env.BACKEND_TARGET || 'http://localhost:8787',
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.BACKEND_URL': JSON.stringify(env.BACKEND_URL || '')
       },
       resolve: {
         alias: {